@@ -3,55 +3,154 @@
  * Genererar Playwright-testskript för mönster som kräver manuell verifiering
  */
 
-import type { RegulatoryReport } from '@holmdigital/standards';
+import {
+    generateRegulatoryReport,
+    getAllConvergenceRules,
+    ICTManualCheck,
+    RegulatoryReport
+} from '@holmdigital/standards';
+import type { FailingNode, ScanReport, ScanResult } from '../core/regulatory-scanner';
+import type { SiteScanResult } from '../core/site-crawler';
+import { getStandardProfile, ComplianceStandard } from '../core/standard-profiles';
+import { RULE_TEMPLATES, TEST_HELPERS, TestHelper, indent, literal } from './test-templates';
+
+/**
+ * En genererad Playwright-fil (en per regel)
+ */
+export interface GeneratedTest {
+    ruleId: string;
+    fileName: string;   // `<ruleId>.spec.ts`
+    content: string;
+}
+
+export interface TestSuiteOptions {
+    /** Språk för regeltexter i filerna (default 'en') */
+    lang?: string;
+    /** Standarden vars pseudo-automation-regler tas med (default: scanresultatets) */
+    standard?: ComplianceStandard;
+}
+
+/**
+ * Sidan som ett test körs mot, med de element som scannern flaggade för regeln
+ */
+interface TestPage {
+    url: string;
+    nodes: { selector: string; frame?: string }[];
+}
+
+const comment = (text: string) => text.replace(/\*\//g, '* /').replace(/\s*\n\s*/g, ' ');
 
 export class PseudoAutomationEngine {
 
     /**
-     * Generera ett Playwright-testskript baserat på en rapport
+     * Generera ett körbart Playwright-test (`.spec.ts`) för en regel på en sida.
+     * Locators byggs från elementen som scannern flaggade (failingNodes).
      */
-    generateTestScript(report: RegulatoryReport, url: string): string {
-        if (!report.holmdigitalInsight.diggRisk) return ''; // Generera inte för icke-kritiska om vi inte vill
+    generateTestScript(report: RegulatoryReport | ScanReport, url: string): string {
+        const nodes = 'failingNodes' in report ? report.failingNodes ?? [] : [];
+        return this.renderSpec(report, [{ url, nodes: nodes.map(toTestNode) }]);
+    }
 
-        const testName = `Verify ${report.wcagCriteria} - ${report.ruleId}`;
+    /**
+     * Generera en testfil per pseudo-automation-regel i standarden. Varje fil kör mot alla scannade sidor,
+     * med locators för de element som fallerade regeln på respektive sida.
+     */
+    generateTestSuite(result: ScanResult | SiteScanResult, options: TestSuiteOptions = {}): GeneratedTest[] {
+        const pages = 'pages' in result ? result.pages : [result];
+        if (pages.length === 0) return [];
 
-        return `
-import { test, expect } from '@playwright/test';
+        const lang = options.lang ?? 'en';
+        const profile = getStandardProfile(options.standard ?? pages[0].standard);
+        const ruleIds = getAllConvergenceRules(lang)
+            .filter(rule => rule.testability.pseudoAutomation && profile.appliesTo(rule))
+            .map(rule => rule.ruleId);
+        // Regler från plugins eller utanför databasen tas med om scannern hittade dem
+        pages.forEach(page => page.reports.forEach(report => {
+            if (report.testability?.pseudoAutomation && !ruleIds.includes(report.ruleId)) ruleIds.push(report.ruleId);
+        }));
+
+        const tests: GeneratedTest[] = [];
+        for (const ruleId of Array.from(new Set(ruleIds))) {
+            const found = pages.flatMap(page => page.reports.filter(report => report.ruleId === ruleId));
+            const report = found[0] ?? generateRegulatoryReport(ruleId, lang);
+            if (!report) continue;
+
+            const testPages = pages.map(page => ({
+                url: page.url,
+                nodes: page.reports
+                    .filter(candidate => candidate.ruleId === ruleId)
+                    .flatMap(candidate => (candidate.failingNodes ?? []).map(toTestNode))
+            }));
+            tests.push({ ruleId, fileName: `${ruleId}.spec.ts`, content: this.renderSpec(report, testPages) });
+        }
+        return tests;
+    }
+
+    private renderSpec(report: RegulatoryReport, pages: TestPage[]): string {
+        const template = RULE_TEMPLATES[report.ruleId];
+        const helpers = Array.from(new Set<TestHelper>(template?.helpers ?? []));
+        const manualSteps = [
+            report.remediation.description,
+            report.remediation.technicalGuidance,
+            ...(template?.manualSteps ?? [])
+        ].filter(Boolean).map((step, index) => `// ${index + 1}. ${comment(step)}`);
+
+        const body = [
+            ...(template ? [template.tests, ''] : []),
+            `test.fixme(${literal(`manual review: ${report.ruleId}`)}, async ({ page }) => {`,
+            indent(manualSteps.join('\n'), 2),
+            '  // Remove .fixme to open the page with the flagged elements highlighted',
+            '  for (const element of await elements(page, nodes)) {',
+            '    await element.highlight();',
+            '  }',
+            '  await page.pause();',
+            '});'
+        ].join('\n');
+
+        return `import { test, ${template ? 'expect, ' : ''}type Locator, type Page } from '@playwright/test';
 
 /**
- * GENERATED PSEUDO-AUTOMATION TEST
+ * Generated by @holmdigital/engine (pseudo-automation)
  * Rule: ${report.ruleId}
- * WCAG: ${report.wcagCriteria}
- * EN 301 549: ${report.en301549Criteria}
+ * WCAG: ${report.wcagCriteria} | EN 301 549: ${report.en301549Criteria}
+ * DOS-lagen: ${comment(report.dosLagenReference)}
  * Risk: ${report.holmdigitalInsight.diggRisk}
- * 
- * Manual Verification Required:
- * ${report.remediation.description}
+ *
+ * ${comment(report.remediation.description)}
  */
 
-test('${testName}', async ({ page }) => {
-  // 1. Navigate to target
-  await page.goto('${url}');
-
-  // 2. Initial state verification
-  // TODO: Add specific selectors based on report details
-  
-  // 3. Interaction steps (Example for Keyboard Navigation)
-  if ('${report.ruleId}' === 'keyboard-accessible') {
-    console.log('Verifying tab order...');
-    await page.keyboard.press('Tab');
-    
-    // Assert focus state
-    const focused = await page.evaluate(() => document.activeElement?.tagName);
-    console.log('Focused element:', focused);
-    
-    // Add assertions here based on expected focus order
+type FlaggedNode = { selector: string; frame?: string };
+
+const PAGES: { url: string; nodes: FlaggedNode[] }[] = ${JSON.stringify(pages, null, 2)};
+
+/** Locator for an element flagged by the scanner, inside its iframe when it was found in one */
+function locate(page: Page, node: FlaggedNode): Locator {
+  const frame = node.frame ? page.frame({ url: node.frame }) : null;
+  return (frame ?? page.mainFrame()).locator(node.selector).first();
+}
+
+/** The visible flagged elements, or the elements matching \`fallback\` when the scanner flagged none */
+async function elements(page: Page, nodes: FlaggedNode[], fallback?: string): Promise<Locator[]> {
+  const candidates = nodes.length > 0
+    ? nodes.map((node) => locate(page, node))
+    : fallback ? await page.locator(fallback).all() : [];
+  const visible: Locator[] = [];
+  for (const candidate of candidates) {
+    if (await candidate.isVisible()) visible.push(candidate);
   }
-  
-  // 4. Verification
-  // Manually verify that...
-});
-    `;
+  return visible;
+}
+${helpers.map(helper => TEST_HELPERS[helper]).join('')}
+for (const { url, nodes } of PAGES) {
+  test.describe(${literal(`${report.ruleId} (WCAG ${report.wcagCriteria}) `)} + url, () => {
+    test.beforeEach(async ({ page }) => {
+      await page.goto(url);
+    });
+
+${indent(body, 4)}
+  });
+}
+`;
     }
 
     /**
@@ -74,4 +173,34 @@ test('${testName}', async ({ page }) => {
 > ${report.holmdigitalInsight.swedishInterpretation}
     `;
     }
+
+    /**
+     * Generera en checklista för en IKT-kontroll (EN 301 549 utanför WCAG) i Markdown
+     */
+    generateICTChecklist(check: ICTManualCheck): string {
+        return `
+### 🕵️ Manual Verification: EN 301 549 ${check.id} ${check.title}
+
+**Regulatory Context**
+- **EN 301 549**: ${check.id} (chapter ${check.chapter})
+- **Applies to**: ${check.applicableFor.join(', ')}
+- **Risk**: ${check.diggRelevance.toUpperCase()}
+
+**Instructions**
+1. [ ] ${check.checklistItem}
+2. [ ] ${check.description}
+
+**HolmDigital Insight**
+> ${check.swedishGuidance}
+    `;
+    }
+}
+
+/**
+ * Motorns selectors markerar shadow-gränser med puppeteers " >>> ", som Playwright tolkar som
+ * ">>"-kedjning. Playwrights CSS-motor går redan igenom öppna shadow roots, så ett mellanslag räcker.
+ */
+function toTestNode(node: FailingNode): TestPage['nodes'][number] {
+    const selector = node.target.split(' >>> ').join(' ');
+    return node.frame ? { selector, frame: node.frame } : { selector };
 }
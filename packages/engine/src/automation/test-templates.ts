@@ -0,0 +1,441 @@
+/**
+ * Test Templates
+ * Regelspecifika Playwright-tester för pseudo-automation. Varje mall ger testkod som körs per sida
+ * (med `page`, `url` och `nodes` i scope) och manuella steg för det som inte går att avgöra automatiskt.
+ */
+
+/**
+ * Hjälpfunktioner som skrivs in i den genererade filen när en mall behöver dem
+ */
+export type TestHelper = 'tabThrough' | 'focusStop' | 'changeValue' | 'clippedText';
+
+export interface RuleTemplate {
+    helpers?: TestHelper[];
+    /** Testkod (TypeScript) – använder `nodes`, `elements()` och `locate()` */
+    tests: string;
+    /** Manuella steg utöver regelns åtgärdsbeskrivning */
+    manualSteps: string[];
+}
+
+const INTERACTIVE = 'a[href], button, input:not([type="hidden"]), select, textarea, [role="button"], [role="link"], [tabindex]:not([tabindex="-1"])';
+const FORM_CONTROLS = 'select, textarea, input[type="checkbox"], input[type="radio"], input[type="text"], input[type="email"], input[type="number"], input:not([type])';
+const HOVER_TRIGGERS = '[aria-describedby], [aria-haspopup], [aria-expanded]';
+
+export const TEST_HELPERS: Record<TestHelper, string> = {
+    tabThrough: `
+/**
+ * Tabs through the page and marks each focus stop with data-hd-stop="<order>".
+ * \`trap\` is the element where focus cycled back before leaving the page.
+ */
+async function tabThrough(page: Page, max = 200): Promise<{ stops: number; trap: string | null }> {
+  let stops = 0;
+  for (let press = 0; press < max; press++) {
+    await page.keyboard.press('Tab');
+    const state = await page.evaluate((order) => {
+      const active = document.activeElement;
+      if (!active || active === document.body) return { done: true, trap: null };
+      const previous = active.getAttribute('data-hd-stop');
+      if (previous !== null) return { done: true, trap: previous === '0' ? null : active.outerHTML.slice(0, 120) };
+      active.setAttribute('data-hd-stop', String(order));
+      return { done: false, trap: null };
+    }, stops);
+    if (state.done) return { stops, trap: state.trap };
+    stops++;
+  }
+  return { stops, trap: null };
+}
+`,
+    focusStop: `
+/** The focus stop that tabThrough() marked with this order */
+function focusStop(page: Page, order: number): Locator {
+  return page.locator('[data-hd-stop="' + order + '"]');
+}
+`,
+    changeValue: `
+/** Changes the value of a form control the way a user would, without submitting the form */
+async function changeValue(control: Locator): Promise<void> {
+  const kind = await control.evaluate((el) => el.tagName === 'SELECT' ? 'select' : (el as HTMLInputElement).type ?? 'text');
+  if (kind === 'select') {
+    const values = await control.locator('option').evaluateAll((options) => options.map((option) => (option as HTMLOptionElement).value));
+    if (values.length > 1) await control.selectOption(values[1]);
+  } else if (kind === 'checkbox' || kind === 'radio') {
+    await control.check();
+  } else {
+    await control.fill(kind === 'number' ? '1' : kind === 'email' ? 'test@example.com' : 'test');
+  }
+  await control.blur();
+  await control.page().waitForLoadState();
+}
+`,
+    clippedText: `
+/** Elements whose text is cut off: overflow hidden and content larger than the box */
+async function clippedText(page: Page): Promise<string[]> {
+  return page.evaluate(() => Array.from(document.querySelectorAll('body *'))
+    .filter((el) => {
+      const style = getComputedStyle(el);
+      const hidden = style.overflowX === 'hidden' || style.overflowY === 'hidden' || style.overflowX === 'clip' || style.overflowY === 'clip';
+      const hasText = Array.from(el.childNodes).some((node) => node.nodeType === Node.TEXT_NODE && (node.textContent ?? '').trim() !== '');
+      return hidden && hasText && (el.scrollWidth > el.clientWidth + 1 || el.scrollHeight > el.clientHeight + 1);
+    })
+    .map((el) => el.outerHTML.slice(0, 120)));
+}
+`
+};
+
+// Delade testblock för regler som kontrollerar samma sak
+const contextChangeListeners = `const start = page.url();
+const opened: string[] = [];
+page.context().on('page', (popup) => opened.push(popup.url()));
+page.on('dialog', (dialog) => {
+  opened.push('dialog: ' + dialog.message());
+  void dialog.dismiss();
+});`;
+
+const requiredForm = `const form = page.locator('form:has([required], [aria-required="true"])').first();
+test.skip(await form.count() === 0, 'no form with required fields on this page');
+await form.evaluate((el) => (el as HTMLFormElement).requestSubmit());
+await page.waitForLoadState();`;
+
+const clippedAfter = (style: string, title: string) => `test(${literal(title)}, async ({ page }) => {
+  await page.addStyleTag({ content: ${literal(style)} });
+  expect(await clippedText(page), 'text that is cut off').toEqual([]);
+});`;
+
+export const RULE_TEMPLATES: Record<string, RuleTemplate> = {
+    'keyboard-accessible': {
+        helpers: ['tabThrough'],
+        tests: `test('interactive elements are reachable with Tab', async ({ page }) => {
+  await tabThrough(page);
+  for (const element of await elements(page, nodes, ${literal(INTERACTIVE)})) {
+    await expect(element, 'not reachable with Tab').toHaveAttribute('data-hd-stop', /^[0-9]+$/);
+  }
+});`,
+        manualSteps: [
+            'Operate every control (menus, dialogs, sliders, custom widgets) with Tab, Shift+Tab, Enter, Space and the arrow keys only.',
+            'Check that nothing requires a mouse, such as drag and drop without an alternative.'
+        ]
+    },
+    'no-keyboard-trap': {
+        helpers: ['tabThrough'],
+        tests: `test('Tab moves through the whole page without getting stuck', async ({ page }) => {
+  const { trap } = await tabThrough(page);
+  expect(trap, 'focus cycles back here before leaving the page').toBeNull();
+});
+
+test('focus can leave every flagged element with Tab', async ({ page }) => {
+  for (const element of await elements(page, nodes, ${literal(INTERACTIVE)})) {
+    await element.focus();
+    await page.keyboard.press('Tab');
+    await expect(element).not.toBeFocused();
+  }
+});`,
+        manualSteps: [
+            'Open embedded content (video players, maps, editors, dialogs) and check that focus can leave with Tab, Shift+Tab or Escape.',
+            'If a non-standard key is needed to leave, check that the user is told about it.'
+        ]
+    },
+    'focus-order': {
+        helpers: ['tabThrough', 'focusStop'],
+        tests: `test('no positive tabindex overrides the DOM order', async ({ page }) => {
+  const positive = await page.locator('[tabindex]').evaluateAll((els) => els
+    .filter((el) => (el as HTMLElement).tabIndex > 0)
+    .map((el) => el.outerHTML.slice(0, 120)));
+  expect(positive).toEqual([]);
+});
+
+test('every focus stop is on screen when focused', async ({ page }) => {
+  const { stops } = await tabThrough(page);
+  for (let order = 0; order < stops; order++) {
+    const stop = focusStop(page, order);
+    await stop.focus();
+    await expect(stop).toBeInViewport();
+  }
+});`,
+        manualSteps: [
+            'Tab through the page and check that the focus order follows the visual reading order.',
+            'Open dialogs and menus and check that focus moves into them and returns to the trigger when they close.'
+        ]
+    },
+    'focus-visible': {
+        helpers: ['tabThrough', 'focusStop'],
+        tests: `test('every focus stop has a visible focus indicator', async ({ page }) => {
+  const { stops } = await tabThrough(page);
+  for (let order = 0; order < stops; order++) {
+    const stop = focusStop(page, order);
+    const style = () => stop.evaluate((el) => {
+      const css = getComputedStyle(el);
+      return [css.outlineStyle, css.outlineWidth, css.outlineColor, css.boxShadow, css.borderColor, css.backgroundColor, css.color, css.textDecorationLine].join('|');
+    });
+    await stop.focus();
+    const focused = await style();
+    await stop.blur();
+    expect(focused, 'focus does not change the appearance').not.toBe(await style());
+  }
+});`,
+        manualSteps: [
+            'Check that the focus indicator is clearly visible against the background for every focus stop.'
+        ]
+    },
+    'on-focus': {
+        helpers: ['tabThrough'],
+        tests: `test('moving focus does not change the context', async ({ page }) => {
+  ${indent(contextChangeListeners, 2).trimStart()}
+  await tabThrough(page);
+  for (const element of await elements(page, nodes)) {
+    await element.focus();
+  }
+  expect(page.url(), 'focus navigated away').toBe(start);
+  expect(opened, 'focus opened windows or dialogs').toEqual([]);
+});`,
+        manualSteps: [
+            'Check that focusing a control never submits a form, moves focus elsewhere or changes the content substantially.'
+        ]
+    },
+    'on-input': {
+        helpers: ['changeValue'],
+        tests: `test('changing form controls does not change the context', async ({ page }) => {
+  ${indent(contextChangeListeners, 2).trimStart()}
+  for (const control of await elements(page, nodes, ${literal(FORM_CONTROLS)})) {
+    await changeValue(control);
+    expect(page.url(), 'input navigated away').toBe(start);
+  }
+  expect(opened, 'input opened windows or dialogs').toEqual([]);
+});`,
+        manualSteps: [
+            'Where changing a setting does change the context (e.g. a language selector), check that the user is told beforehand.'
+        ]
+    },
+    'content-on-hover': {
+        tests: `test('content shown on hover can be dismissed and hovered', async ({ page }) => {
+  const popup = page.locator('[role="tooltip"]:visible, [role="menu"]:visible').first();
+  for (const trigger of await elements(page, nodes, ${literal(HOVER_TRIGGERS)})) {
+    await trigger.hover();
+    if (await popup.count() === 0) continue;
+    await page.keyboard.press('Escape');
+    await expect(popup, 'Escape does not dismiss the content').toBeHidden();
+    await trigger.hover();
+    await popup.hover();
+    await expect(popup, 'the content disappears when the pointer moves onto it').toBeVisible();
+  }
+});`,
+        manualSteps: [
+            'Check that content shown on hover or focus stays visible until the user dismisses it, moves away or it is no longer valid.',
+            'Check content that is not marked up as a tooltip or menu, such as custom popovers.'
+        ]
+    },
+    'timing-adjustable': {
+        tests: `test('the page does not refresh or redirect on a timer', async ({ page }) => {
+  const timed = await page.locator('meta[http-equiv="refresh" i]').evaluateAll((metas) => metas
+    .map((meta) => parseInt(meta.getAttribute('content') ?? '0', 10))
+    .filter((seconds) => seconds > 0 && seconds < 72000));
+  expect(timed, 'meta refresh with a time limit (seconds)').toEqual([]);
+});`,
+        manualSteps: [
+            'Find session timeouts and timed steps (e.g. bookings, payments) and let them expire.',
+            'Check that the user is warned at least 20 seconds before and can extend the time with a simple action, at least ten times.'
+        ]
+    },
+    'pause-stop-hide': {
+        tests: `test('autoplaying media has controls', async ({ page }) => {
+  const media = await page.locator('video[autoplay], audio[autoplay]').evaluateAll((els) => els
+    .filter((el) => !el.hasAttribute('controls') && !(el as HTMLMediaElement).muted)
+    .map((el) => el.outerHTML.slice(0, 120)));
+  expect(media, 'autoplaying media without controls').toEqual([]);
+  await expect(page.locator('marquee, blink')).toHaveCount(0);
+});`,
+        manualSteps: [
+            'Find carousels, animations, tickers and auto-updating content that last more than 5 seconds.',
+            'Check that each can be paused, stopped or hidden.'
+        ]
+    },
+    'bypass-blocks': {
+        tests: `test('a skip link or main landmark lets users bypass repeated blocks', async ({ page }) => {
+  await page.keyboard.press('Tab');
+  const first = await page.evaluate(() => document.activeElement?.getAttribute('href') ?? '');
+  const main = await page.getByRole('main').count();
+  expect(first.startsWith('#') || main > 0, 'no skip link first in the tab order and no main landmark').toBe(true);
+});
+
+test('the skip link points to an existing target', async ({ page }) => {
+  await page.keyboard.press('Tab');
+  const href = await page.evaluate(() => document.activeElement?.getAttribute('href') ?? '');
+  test.skip(!href.startsWith('#') || href.length < 2, 'the first focus stop is not a skip link');
+  await expect(page.locator('[id="' + decodeURIComponent(href.slice(1)) + '"]')).toHaveCount(1);
+});`,
+        manualSteps: [
+            'Activate the skip link with Enter and check that the next Tab continues from the main content.'
+        ]
+    },
+    'language-of-parts': {
+        tests: `test('the page and its parts declare valid languages', async ({ page }) => {
+  await expect(page.locator('html')).toHaveAttribute('lang', /^[a-z]{2,3}(-[a-z0-9]+)*$/i);
+  const invalid = await page.locator('[lang]').evaluateAll((els) => els
+    .map((el) => el.getAttribute('lang') ?? '')
+    .filter((lang) => lang !== '' && !/^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(lang)));
+  expect(invalid, 'invalid lang values').toEqual([]);
+});`,
+        manualSteps: [
+            'Find passages and phrases in another language than the page (quotes, names of services, language selectors).',
+            'Check that each has a lang attribute with the right language.'
+        ]
+    },
+    'error-identification': {
+        tests: `test('required fields are flagged when the form is submitted empty', async ({ page }) => {
+  ${indent(requiredForm, 2).trimStart()}
+  const unflagged = await form.locator('[required], [aria-required="true"]').evaluateAll((fields) => fields
+    .filter((field) => {
+      const empty = !('value' in field) || (field as HTMLInputElement).value === '';
+      const invalid = 'validity' in field && !(field as HTMLInputElement).validity.valid;
+      return empty && !invalid && field.getAttribute('aria-invalid') !== 'true';
+    })
+    .map((field) => field.outerHTML.slice(0, 120)));
+  expect(unflagged, 'empty required fields that are not marked as invalid').toEqual([]);
+});`,
+        manualSteps: [
+            'Submit each form with invalid values and check that every error is described in text, not only by colour or an icon.'
+        ]
+    },
+    'error-suggestion': {
+        tests: `test('invalid fields are linked to an error message', async ({ page }) => {
+  ${indent(requiredForm, 2).trimStart()}
+  const unexplained = await form.locator('[aria-invalid="true"]').evaluateAll((fields) => fields
+    .filter((field) => {
+      const ids = ((field.getAttribute('aria-describedby') ?? '') + ' ' + (field.getAttribute('aria-errormessage') ?? '')).split(' ').filter(Boolean);
+      return !ids.some((id) => (document.getElementById(id)?.textContent ?? '').trim() !== '');
+    })
+    .map((field) => field.outerHTML.slice(0, 120)));
+  expect(unexplained, 'invalid fields without an error message').toEqual([]);
+});`,
+        manualSteps: [
+            'Check that each error message tells the user how to correct the input (format, allowed values, example).'
+        ]
+    },
+    'reflow': {
+        tests: `test('content reflows at 320 CSS pixels without horizontal scrolling', async ({ page }) => {
+  await page.setViewportSize({ width: 320, height: 256 });
+  const overflow = await page.evaluate(() => document.documentElement.scrollWidth - document.documentElement.clientWidth);
+  expect(overflow, 'horizontal overflow in pixels').toBeLessThanOrEqual(0);
+  for (const element of await elements(page, nodes)) {
+    const box = await element.boundingBox();
+    if (box) expect(box.x + box.width, 'element extends beyond the viewport').toBeLessThanOrEqual(320);
+  }
+});`,
+        manualSteps: [
+            'Zoom the browser to 400% at 1280 px width and check that no content or functionality is lost.'
+        ]
+    },
+    'resize-text': {
+        helpers: ['clippedText'],
+        tests: clippedAfter('html { font-size: 200% !important; }', 'text can be resized to 200% without being cut off'),
+        manualSteps: [
+            'Zoom the browser text to 200% and check that no text overlaps or disappears.'
+        ]
+    },
+    'text-spacing': {
+        helpers: ['clippedText'],
+        tests: clippedAfter(
+            '* { line-height: 1.5 !important; letter-spacing: 0.12em !important; word-spacing: 0.16em !important; } p { margin-bottom: 2em !important; }',
+            'increased text spacing does not cut off text'
+        ),
+        manualSteps: [
+            'Apply the WCAG text spacing bookmarklet and check that no text overlaps other content.'
+        ]
+    },
+    'orientation': {
+        tests: `test('content is available in portrait and landscape', async ({ page }) => {
+  for (const size of [{ width: 390, height: 844 }, { width: 844, height: 390 }]) {
+    await page.setViewportSize(size);
+    expect((await page.locator('body').innerText()).trim(), 'no text at ' + size.width + 'x' + size.height).not.toBe('');
+    const rotated = await page.evaluate(() => [document.documentElement, document.body].some((el) => getComputedStyle(el).transform !== 'none'));
+    expect(rotated, 'the page is rotated with CSS').toBe(false);
+  }
+});`,
+        manualSteps: [
+            'Rotate a real device and check that the content does not ask the user to turn it back.'
+        ]
+    },
+    'name-role-value': {
+        tests: `test('interactive elements have an accessible name', async ({ page }) => {
+  for (const element of await elements(page, nodes, ${literal(INTERACTIVE)})) {
+    await expect(element).toHaveAccessibleName(/.+/);
+  }
+});`,
+        manualSteps: [
+            'Use a screen reader on custom widgets and check that role, name, state (expanded, selected, checked) and value are announced and updated.'
+        ]
+    },
+    'landmark-one-main': {
+        tests: `test('the page has one main landmark', async ({ page }) => {
+  await expect(page.getByRole('main')).toHaveCount(1);
+});`,
+        manualSteps: ['Check that the main landmark contains the primary content in every state of the page.']
+    },
+    'page-has-heading-one': {
+        tests: `test('the page has a level-one heading', async ({ page }) => {
+  expect(await page.getByRole('heading', { level: 1 }).count()).toBeGreaterThan(0);
+});`,
+        manualSteps: ['Check that the level-one heading describes the page.']
+    },
+    'heading-order': {
+        tests: `test('heading levels do not skip', async ({ page }) => {
+  const levels = await page.locator('h1, h2, h3, h4, h5, h6, [role="heading"]').evaluateAll((headings) => headings
+    .map((heading) => Number(heading.getAttribute('aria-level') ?? heading.tagName.slice(1))));
+  const skips = levels.filter((level, index) => index > 0 && level > levels[index - 1] + 1);
+  expect(skips, 'headings that skip a level').toEqual([]);
+});`,
+        manualSteps: ['Check that the heading structure reflects the structure of the content.']
+    },
+    'landmark-banner-is-top-level': {
+        tests: `test('the banner is not inside another landmark', async ({ page }) => {
+  await expect(page.locator('main, aside, nav, [role="main"], [role="complementary"], [role="navigation"], [role="region"]').getByRole('banner')).toHaveCount(0);
+});`,
+        manualSteps: []
+    },
+    'landmark-no-duplicate-banner': {
+        tests: `test('the page has at most one banner', async ({ page }) => {
+  expect(await page.getByRole('banner').count()).toBeLessThanOrEqual(1);
+});`,
+        manualSteps: []
+    },
+    'landmark-unique': {
+        tests: `test('landmarks of the same type have unique names', async ({ page }) => {
+  for (const role of ['navigation', 'complementary', 'region', 'search', 'form'] as const) {
+    const names = await page.getByRole(role).evaluateAll((els) => els.map((el) => el.getAttribute('aria-label')
+      ?? (el.getAttribute('aria-labelledby') ?? '').split(' ').map((id) => document.getElementById(id)?.textContent ?? '').join(' ').trim()));
+    expect(new Set(names).size, role + ' landmarks with the same name').toBe(names.length);
+  }
+});`,
+        manualSteps: ['Check that the landmark names describe their content.']
+    },
+    'region': {
+        tests: `test('all visible text is inside a landmark', async ({ page }) => {
+  const outside = await page.evaluate(() => {
+    const landmarks = 'header, footer, main, nav, aside, form, section[aria-label], section[aria-labelledby], [role="banner"], [role="contentinfo"], [role="main"], [role="navigation"], [role="complementary"], [role="region"], [role="search"], [role="form"]';
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    const texts: string[] = [];
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const text = (node.textContent ?? '').trim();
+      const parent = node.parentElement;
+      if (!text || !parent || parent.closest(landmarks) || parent.closest('script, style, noscript, template')) continue;
+      if (parent.getClientRects().length === 0) continue;
+      texts.push(text.slice(0, 80));
+    }
+    return texts;
+  });
+  expect(outside, 'text outside landmarks').toEqual([]);
+});`,
+        manualSteps: []
+    }
+};
+
+export function indent(code: string, spaces: number): string {
+    const pad = ' '.repeat(spaces);
+    return code.split('\n').map(line => line ? pad + line : line).join('\n');
+}
+
+/**
+ * Strängliteral för den genererade koden – enkla citattecken som i resten av filen
+ */
+export function literal(value: string): string {
+    return value.includes("'") || value.includes('\n') ? JSON.stringify(value) : `'${value.replace(/\\/g, '\\\\')}'`;
+}
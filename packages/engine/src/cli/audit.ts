@@ -0,0 +1,149 @@
+/**
+ * audit-kommandot: går igenom de manuella kontrollerna en i taget och sparar varje svar direkt,
+ * så att granskningen kan avbrytas och återupptas.
+ */
+
+import readline from 'readline';
+import chalk from 'chalk';
+import type { ScanResult } from '../core/regulatory-scanner';
+import type { ManualCheckResult, ManualCheckStatus } from '../core/manual-results';
+import { AuditFile, AuditItem, AuditVerdict, recordAuditResult, saveAuditFile } from '../core/manual-audit';
+import { t } from '../i18n';
+
+export interface AuditSessionOptions {
+    review?: boolean;   // Gå igenom även krav som redan har ett utfall
+    tester?: string;
+}
+
+const ANSWERS: Record<string, ManualCheckStatus | 'skip' | 'quit'> = {
+    p: 'pass',
+    pass: 'pass',
+    f: 'fail',
+    fail: 'fail',
+    n: 'not-applicable',
+    na: 'not-applicable',
+    'n/a': 'not-applicable',
+    s: 'skip',
+    skip: 'skip',
+    q: 'quit',
+    quit: 'quit'
+};
+
+const MAX_NODES_SHOWN = 5;
+
+function printItem(item: AuditItem, position: number, total: number, scans: ScanResult[]) {
+    console.log(chalk.gray('\n----------------------------------------'));
+    console.log(chalk.blue.bold(t('audit.progress', { current: position, total, id: item.id })) + chalk.bold(` ${item.title}`));
+    console.log(item.checklist);
+
+    const nodes = scans.flatMap(page => page.reports
+        .filter(report => report.ruleId === item.id)
+        .flatMap(report => (report.failingNodes ?? []).map(node => ({ url: page.url, target: node.target }))));
+    if (nodes.length > 0) {
+        console.log(chalk.red(`\n${t('audit.failing_nodes', { count: nodes.length })}`));
+        nodes.slice(0, MAX_NODES_SHOWN).forEach(node => console.log(chalk.cyan(`➜ ${node.target}`) + chalk.gray(` ${node.url}`)));
+    }
+
+    const review = scans.flatMap(page => (page.needsReview ?? [])
+        .filter(report => report.ruleId === item.id)
+        .flatMap(report => (report.failingNodes ?? []).map(node => ({ url: page.url, target: node.target }))));
+    if (review.length > 0) {
+        console.log(chalk.yellow(`\n${t('audit.review_nodes', { count: review.length })}`));
+        review.slice(0, MAX_NODES_SHOWN).forEach(node => console.log(chalk.cyan(`➜ ${node.target}`) + chalk.gray(` ${node.url}`)));
+    }
+    if (item.pseudoAutomation) {
+        console.log(chalk.magenta(`\n${t('audit.pseudo_hint')}`));
+    }
+}
+
+/**
+ * Kör den interaktiva granskningen. Returnerar granskningsfilen som den såg ut när sessionen slutade.
+ */
+export async function runAuditSession(
+    auditPath: string,
+    audit: AuditFile,
+    items: AuditItem[],
+    scans: ScanResult[],
+    options: AuditSessionOptions = {}
+): Promise<AuditFile> {
+    const recorded = new Set(audit.results.map(result => result.id));
+    const queue = options.review ? items : items.filter(item => !recorded.has(item.id));
+
+    console.log(chalk.bold(t('audit.title', { file: auditPath })));
+    console.log(chalk.gray(t('audit.summary', { done: items.filter(item => recorded.has(item.id)).length, total: items.length })));
+    if (queue.length === 0) {
+        console.log(chalk.green(t('audit.all_done')));
+        return audit;
+    }
+
+    // Radernas iterator buffrar inmatningen, så att svar som skickas via en pipe inte tappas
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const lines = rl[Symbol.asyncIterator]();
+    const ask = async (question: string): Promise<string | null> => {
+        rl.setPrompt(question);
+        rl.prompt();
+        const next = await lines.next();
+        return next.done ? null : String(next.value).trim();
+    };
+
+    try {
+        for (const [index, item] of queue.entries()) {
+            printItem(item, index + 1, queue.length, scans);
+
+            let answer = ANSWERS[(await ask(t('audit.prompt_status')))?.toLowerCase() ?? 'quit'];
+            while (!answer) {
+                console.log(chalk.yellow(t('audit.invalid_answer')));
+                answer = ANSWERS[(await ask(t('audit.prompt_status')))?.toLowerCase() ?? 'quit'];
+            }
+            if (answer === 'quit') break;
+            if (answer === 'skip') continue;
+
+            const notes = await ask(t('audit.prompt_notes'));
+            const screenshots = (await ask(t('audit.prompt_screenshots')) ?? '')
+                .split(',')
+                .map(entry => entry.trim())
+                .filter(Boolean);
+
+            const result: ManualCheckResult = {
+                id: item.id,
+                status: answer,
+                ...(notes ? { notes } : {}),
+                ...(screenshots.length > 0 ? { screenshots } : {}),
+                ...(audit.url ? { url: audit.url } : {}),
+                testedAt: new Date().toISOString(),
+                ...(options.tester ? { tester: options.tester } : {})
+            };
+            audit = await saveAuditFile(auditPath, recordAuditResult(audit, result));
+            console.log(chalk.gray(t('audit.saved', { file: auditPath })));
+        }
+    } finally {
+        rl.close();
+    }
+
+    return audit;
+}
+
+export function printAuditVerdict(verdict: AuditVerdict) {
+    const color = verdict.status === 'PASS' ? chalk.green : verdict.status === 'FAIL' ? chalk.red : chalk.yellow;
+    console.log(color.bold(t('audit.verdict', { status: verdict.status })));
+    console.log(t('audit.verdict_automated', { pages: verdict.automated.pages, count: verdict.automated.failedRules.length }));
+    console.log(t('audit.verdict_manual', {
+        passed: verdict.manual.passed.length,
+        failed: verdict.manual.failed.length,
+        na: verdict.manual.notApplicable.length,
+        pending: verdict.manual.pending.length
+    }));
+
+    const failures = [
+        ...verdict.automated.failedRules.map(ruleId => `${ruleId} (${t('audit.source_automated')})`),
+        ...verdict.manual.failed.map(id => `${id} (${t('audit.source_manual')})`)
+    ];
+    if (failures.length > 0) {
+        console.log(chalk.red.bold(`\n${t('audit.verdict_failures')}`));
+        failures.forEach(failure => console.log(chalk.red(`  ${failure}`)));
+    }
+    if (verdict.manual.pending.length > 0) {
+        console.log(chalk.yellow.bold(`\n${t('audit.verdict_pending')}`));
+        console.log(chalk.gray(`  ${verdict.manual.pending.join(', ')}`));
+    }
+}
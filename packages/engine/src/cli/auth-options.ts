@@ -0,0 +1,104 @@
+/**
+ * Autentiseringsflaggor (--header, --cookie, --login-* m.fl.) slås ihop med konfigurationens auth-block
+ */
+
+import type { CookieParam } from 'puppeteer';
+import type { AuthOptions, LoginStep } from '../core/auth';
+import { AuthConfig, loadLoginScript, resolveAuthConfig } from '../config/config-loader';
+
+export interface AuthFlags {
+    header?: string[];
+    cookie?: string[];
+    cookies?: string;
+    basicAuth?: string;
+    loginUrl?: string;
+    loginField?: string[];
+    loginSubmit?: string;
+    loginWait?: string;
+    loginScript?: string;
+}
+
+/**
+ * "Name: value" → [Name, value]
+ */
+export function parseHeader(input: string): [string, string] {
+    const index = input.indexOf(':');
+    if (index <= 0) {
+        throw new Error(`Invalid header '${input}' (expected "Name: value")`);
+    }
+    return [input.slice(0, index).trim(), input.slice(index + 1).trim()];
+}
+
+/**
+ * "name=value" → cookie för mål-URL:en
+ */
+export function parseCookie(input: string, url: string): CookieParam {
+    const index = input.indexOf('=');
+    if (index <= 0) {
+        throw new Error(`Invalid cookie '${input}' (expected "name=value")`);
+    }
+    return { name: input.slice(0, index).trim(), value: input.slice(index + 1), url };
+}
+
+/**
+ * "selector=value" – första '=' utanför [attribut]-selektorer skiljer selektor från värde,
+ * så både input[name=user]=anna och lösenord med '=' fungerar
+ */
+export function parseLoginField(input: string): [string, string] {
+    let depth = 0;
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (char === '[') depth++;
+        else if (char === ']') depth = Math.max(0, depth - 1);
+        else if (char === '=' && depth === 0 && i > 0) {
+            return [input.slice(0, i), input.slice(i + 1)];
+        }
+    }
+    throw new Error(`Invalid login field '${input}' (expected "selector=value")`);
+}
+
+/**
+ * Flaggor skriver över konfigurationen fält för fält; headers och cookies läggs ihop
+ */
+export async function buildAuthOptions(
+    flags: AuthFlags,
+    config: AuthConfig | undefined,
+    url: string
+): Promise<AuthOptions | undefined> {
+    const base: AuthOptions = config ? await resolveAuthConfig(config) : {};
+
+    const headers = { ...base.headers, ...Object.fromEntries((flags.header ?? []).map(parseHeader)) };
+    const cookies = [...(base.cookies ?? []), ...(flags.cookie ?? []).map(cookie => parseCookie(cookie, url))];
+
+    let basicAuth = base.basicAuth;
+    if (flags.basicAuth) {
+        const index = flags.basicAuth.indexOf(':');
+        if (index <= 0) throw new Error('Invalid --basic-auth (expected "username:password")');
+        basicAuth = { username: flags.basicAuth.slice(0, index), password: flags.basicAuth.slice(index + 1) };
+    }
+
+    let login = base.login;
+    if (flags.loginScript) {
+        login = await loadLoginScript(flags.loginScript);
+    } else if (flags.loginUrl) {
+        const step: LoginStep = {
+            url: flags.loginUrl,
+            fields: Object.fromEntries((flags.loginField ?? []).map(parseLoginField)),
+            submit: flags.loginSubmit,
+            waitFor: flags.loginWait
+        };
+        login = step;
+    } else if (flags.loginField || flags.loginSubmit || flags.loginWait) {
+        throw new Error('--login-field, --login-submit and --login-wait require --login-url');
+    }
+
+    const auth: AuthOptions = {
+        headers: Object.keys(headers).length > 0 ? headers : undefined,
+        cookies: cookies.length > 0 ? cookies : undefined,
+        cookieFile: flags.cookies ?? base.cookieFile,
+        basicAuth,
+        login
+    };
+
+    return Object.values(auth).some(value => value !== undefined) ? auth : undefined;
+}
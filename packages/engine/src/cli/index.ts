@@ -8,10 +8,61 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { RegulatoryScanner } from '../core/regulatory-scanner';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EngineChecks, ScanResult, Viewport } from '../core/regulatory-scanner';
+import type { AuthOptions } from '../core/auth';
+import type { FrameScanOptions } from '../core/frame-scanner';
+import type { ScannerPlugin } from '../core/plugins';
+import type { UserFlow, FlowScanResult } from '../core/user-flow';
+import type { SiteScanResult } from '../core/site-crawler';
+import { loadManualResults } from '../core/manual-results';
+import {
+    computeAuditVerdict,
+    createAuditFile,
+    getAuditItems,
+    loadAuditFile,
+    loadAuditScans,
+    saveAuditFile,
+    DEFAULT_AUDIT_FILE
+} from '../core/manual-audit';
+import type { DiggRisk } from '@holmdigital/standards';
+import {
+    compareWithBaseline,
+    evaluateBaselineGate,
+    loadBaseline,
+    saveBaseline,
+    BaselineDiff,
+    BaselineGateResult,
+    BaselineInput
+} from '../core/baseline';
+import { getStandardProfile, isComplianceStandard } from '../core/standard-profiles';
+import { formatScoreFactors, ScoreBreakdown, ScoringModel } from '../core/scoring';
 import { PseudoAutomationEngine } from '../automation/pseudo-automation';
 import { generateReportHTML } from '../reporting/html-template';
+import { generateInteractiveReportHTML } from '../reporting/interactive-report';
 import { generatePDF } from '../reporting/pdf-generator';
-import { setLanguage, t } from '../i18n';
+import { loadReportImages, DEFAULT_MAX_EMBED_BYTES } from '../reporting/report-images';
+import { generateSarif } from '../reporting/sarif';
+import { generateJUnit } from '../reporting/junit';
+import { buildConformanceMatrix, generateMatrixHTML, MatrixOptions } from '../reporting/conformance-matrix';
+import { setLanguage, getCurrentLang, t } from '../i18n';
+import { resolveTarget, readStdin, ScanTarget } from './targets';
+import { buildAuthOptions } from './auth-options';
+import { runAuditSession, printAuditVerdict } from './audit';
+import {
+    loadConfig,
+    loadFlowFile,
+    resolveChecks,
+    resolveConfigTargets,
+    resolvePlugins,
+    resolveScoring,
+    resolveViewport,
+    FrameConfig,
+    HdA11yConfig,
+    LoadedConfig,
+    OutputConfig
+} from '../config/config-loader';
 
 /**
  * Validates URL format
@@ -25,78 +76,761 @@ function isValidUrl(urlString: string): boolean {
     }
 }
 
+/**
+ * Skriver ett felmeddelande (med ev. tips) och avslutar
+ */
+function fatal(message: string, hint?: string): never {
+    console.error(chalk.red(`Error: ${message}`));
+    if (hint) console.error(chalk.gray(hint));
+    process.exit(1);
+}
+
+function errorText(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Samlar upprepade flaggor (t.ex. --include a --include b) till en lista
+ */
+function collect(value: string, previous: string[] = []): string[] {
+    return [...previous, value];
+}
+
+const MAX_DEDUCTIONS_SHOWN = 5;
+
+/**
+ * Delpoäng per princip och de största avdragen bakom score
+ */
+function printScoreBreakdown(breakdown: ScoreBreakdown) {
+    console.log(chalk.gray(t('cli.score_model', { model: breakdown.model })));
+    console.log(chalk.gray(t('cli.principle_scores', breakdown.principles)));
+    if (breakdown.deductions.length === 0) return;
+
+    const largest = [...breakdown.deductions].sort((a, b) => b.points - a.points);
+    console.log(chalk.gray(t('cli.score_deductions')));
+    largest.slice(0, MAX_DEDUCTIONS_SHOWN).forEach(deduction => {
+        console.log(chalk.gray(`  -${deduction.points} ${deduction.ruleId}${deduction.url ? ` (${deduction.url})` : ''}: ${formatScoreFactors(deduction.factors)}`));
+    });
+    if (largest.length > MAX_DEDUCTIONS_SHOWN) {
+        console.log(chalk.gray(`  ${t('cli.more', { count: largest.length - MAX_DEDUCTIONS_SHOWN })}`));
+    }
+}
+
+/**
+ * Regler som axe inte kunde avgöra (incomplete), sammanslagna per regel över sidorna
+ */
+function printNeedsReview(pages: ScanResult[]) {
+    const rules = new Map<string, { wcag: string; count: number; pages: number; targets: string[] }>();
+    for (const page of pages) {
+        for (const report of page.needsReview ?? []) {
+            const nodes = report.failingNodes ?? [];
+            const entry = rules.get(report.ruleId) ?? { wcag: report.wcagCriteria, count: 0, pages: 0, targets: [] };
+            entry.count += nodes.length;
+            entry.pages += 1;
+            entry.targets.push(...nodes.map(node => node.target));
+            rules.set(report.ruleId, entry);
+        }
+    }
+    if (rules.size === 0) return;
+
+    console.log(chalk.gray('\n----------------------------------------'));
+    console.log(chalk.yellow.bold(t('cli.needs_review', { count: rules.size })));
+    rules.forEach((entry, ruleId) => {
+        console.log(chalk.yellow(`  ${pages.length > 1
+            ? t('cli.review_rule_pages', { ruleId, wcag: entry.wcag, count: entry.count, pages: entry.pages })
+            : t('cli.review_rule', { ruleId, wcag: entry.wcag, count: entry.count })}`));
+        if (pages.length === 1) {
+            entry.targets.slice(0, 3).forEach(target => console.log(chalk.cyan(`    ➜ ${target}`)));
+            if (entry.targets.length > 3) console.log(chalk.gray(`    ${t('cli.more', { count: entry.targets.length - 3 })}`));
+        }
+    });
+}
+
+/**
+ * Skriver ut en sammanfattning av en crawl (en rad per sida + återkommande fel)
+ */
+function printSiteResult(site: SiteScanResult | FlowScanResult) {
+    const isFlow = 'flow' in site;
+
+    console.log(chalk.bold(t('cli.score', { score: site.score })));
+    if (site.scoreBreakdown) printScoreBreakdown(site.scoreBreakdown);
+
+    const statusColor = site.complianceStatus === 'PASS' ? chalk.green : chalk.red;
+    console.log(statusColor.bold(t('cli.status', { status: site.complianceStatus })));
+    if (site.complianceStatus === 'FAIL') {
+        console.log(chalk.red(t('cli.not_compliant')));
+    }
+
+    console.log(chalk.gray('----------------------------------------'));
+    console.log(chalk.bold(isFlow
+        ? t('cli.flow_steps', { count: site.pages.length })
+        : t('cli.crawl_pages', { count: site.pages.length })));
+
+    site.pages.forEach(page => {
+        const color = page.complianceStatus === 'PASS' ? chalk.green : page.stats.critical > 0 ? chalk.red : chalk.yellow;
+        console.log(color(`  ${String(page.score).padStart(3)}  ${page.step ? `${page.step} ${chalk.gray(page.url)}` : page.url}`));
+        console.log(chalk.gray(`       Critical: ${page.stats.critical} | High: ${page.stats.high} | Medium: ${page.stats.medium} | Total: ${page.stats.total}`));
+    });
+
+    if (site.failedPages.length > 0) {
+        console.log(chalk.red.bold(`\n${isFlow ? t('cli.flow_failed') : t('cli.crawl_failed_pages', { count: site.failedPages.length })}`));
+        site.failedPages.forEach(failed => {
+            console.log(chalk.red(`  ${failed.url}`));
+            console.log(chalk.gray(`    ${failed.error}`));
+        });
+    }
+
+    if (site.recurringViolations.length > 0) {
+        console.log(chalk.magenta.bold(`\n${t('cli.recurring_violations')}`));
+        site.recurringViolations.forEach(violation => {
+            const color = violation.diggRisk === 'critical' ? chalk.red : chalk.yellow;
+            console.log(color(`  [${violation.diggRisk.toUpperCase()}] ${violation.ruleId} (WCAG ${violation.wcagCriteria})`));
+            console.log(chalk.gray(`    ${t('cli.recurring_pages', { pages: violation.pageCount, total: site.pages.length, nodes: violation.nodeCount })}`));
+        });
+    }
+
+    printNeedsReview(site.pages);
+
+    console.log(chalk.gray('\n----------------------------------------'));
+    console.log(`Critical: ${site.stats.critical} | High: ${site.stats.high} | Medium: ${site.stats.medium} | Total: ${site.stats.total}\n`);
+}
+
+/**
+ * Jämför mot baseline-filen och skriver ev. en ny baseline (--update-baseline)
+ */
+async function runBaseline(
+    current: BaselineInput,
+    settings: { path: string; maxScoreDrop: number; update: boolean },
+    quiet: boolean
+): Promise<{ diff: BaselineDiff; gate: BaselineGateResult }> {
+    const baseline = await loadBaseline(settings.path);
+    if (!baseline && !quiet) {
+        console.warn(chalk.yellow(t('cli.baseline_missing', { path: settings.path })));
+    }
+
+    const diff = compareWithBaseline(current, baseline);
+    const gate = evaluateBaselineGate(diff, { maxScoreDrop: settings.maxScoreDrop });
+
+    if (settings.update) {
+        await saveBaseline(settings.path, current);
+        if (!quiet) console.log(chalk.green(t('cli.baseline_updated', { path: settings.path })));
+    }
+
+    return { diff, gate };
+}
+
+function printBaselineDiff(diff: BaselineDiff) {
+    console.log(chalk.bold(`\n${t('cli.baseline_title')}`));
+    console.log(`${chalk.red(t('cli.baseline_new', { count: diff.newViolations.length }))} | ` +
+        `${chalk.green(t('cli.baseline_fixed', { count: diff.fixedViolations.length }))} | ` +
+        `${chalk.gray(t('cli.baseline_unchanged', { count: diff.unchangedViolations.length }))}`);
+
+    const delta = diff.scoreDelta > 0 ? `+${diff.scoreDelta}` : String(diff.scoreDelta);
+    console.log(chalk.gray(t('cli.baseline_score', { previous: diff.baselineScore, current: diff.currentScore, delta })));
+
+    diff.newViolations.slice(0, 10).forEach(entry => {
+        console.log(chalk.red(`  + [${entry.diggRisk.toUpperCase()}] ${entry.ruleId} ${chalk.cyan(entry.target)}`));
+        if (entry.url) console.log(chalk.gray(`    ${entry.url}`));
+    });
+    if (diff.newViolations.length > 10) {
+        console.log(chalk.gray(`  ...and ${diff.newViolations.length - 10} more`));
+    }
+
+    diff.fixedViolations.slice(0, 10).forEach(entry => {
+        console.log(chalk.green(`  - ${entry.ruleId} ${entry.target}`));
+    });
+    if (diff.fixedViolations.length > 10) {
+        console.log(chalk.gray(`  ...and ${diff.fixedViolations.length - 10} more`));
+    }
+}
+
+interface CiSettings {
+    enabled: boolean;
+    failOn: DiggRisk | 'none';
+    minScore?: number;
+}
+
+const RISK_LEVELS: DiggRisk[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * CI-beslut: med baseline fallerar vi bara på regressioner, annars på brister från failOn och uppåt.
+ * minScore gäller alltid.
+ */
+function exitOnCiFailure(
+    ci: CiSettings,
+    quiet: boolean,
+    result: ScanResult | SiteScanResult,
+    baseline: { gate: BaselineGateResult } | null
+) {
+    if (!ci.enabled) return;
+
+    const fail = (message: string, reasons: string[] = []) => {
+        if (!quiet) {
+            console.error(chalk.red(message));
+            reasons.forEach(reason => console.error(chalk.red(`  ${reason}`)));
+        }
+        process.exit(1);
+    };
+
+    // Sidor som inte gick att nå fäller alltid bygget, oavsett baseline och --fail-on
+    if ('pages' in result && (result.pages.length === 0 || result.failedPages.length > 0)) {
+        fail(t('cli.unreachable_failure', { count: result.failedPages.length }), result.failedPages.map(failed => `${failed.url}: ${failed.error}`));
+    }
+
+    if (ci.minScore !== undefined && result.score < ci.minScore) {
+        fail(t('cli.min_score_failure', { score: result.score, min: ci.minScore }));
+    }
+
+    if (baseline) {
+        if (!baseline.gate.passed) fail(t('cli.baseline_failure'), baseline.gate.reasons);
+        return;
+    }
+
+    if (ci.failOn === 'none') return;
+    const count = RISK_LEVELS
+        .slice(RISK_LEVELS.indexOf(ci.failOn))
+        .reduce((sum, risk) => sum + result.stats[risk], 0);
+
+    if (count > 0) {
+        fail(ci.failOn === 'critical'
+            ? t('cli.critical_failure')
+            : t('cli.risk_failure', { count, risk: ci.failOn }));
+    }
+}
+
+type OutputFormat = 'text' | 'json' | 'sarif' | 'junit';
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+type ReportType = 'violations' | 'matrix';
+const REPORT_TYPES: ReportType[] = ['violations', 'matrix'];
+
+/**
+ * Skriver maskinläsbar output till --output eller stdout.
+ * Med `matrix` (--report matrix) blir JSON-outputen konformitetsmatrisen i stället för scanresultatet.
+ */
+async function writeOutput(
+    format: OutputFormat,
+    data: ScanResult | SiteScanResult,
+    baselineDiff: BaselineDiff | undefined,
+    outputPath?: string,
+    matrix?: MatrixOptions
+) {
+    if (format === 'text') return;
+
+    let content: string;
+    switch (format) {
+        case 'sarif':
+            content = JSON.stringify(generateSarif(data, { baselineDiff }), null, 2);
+            break;
+        case 'junit':
+            content = generateJUnit(data);
+            break;
+        default:
+            content = matrix
+                ? JSON.stringify(buildConformanceMatrix(data, matrix), null, 2)
+                : JSON.stringify(baselineDiff ? { ...data, baselineDiff } : data, null, 2);
+    }
+
+    if (outputPath) {
+        await fs.writeFile(outputPath, content, 'utf-8');
+    } else {
+        console.log(content);
+    }
+}
+
+/**
+ * Fristående HTML-rapport (--html); med --report matrix blir det konformitetsmatrisen.
+ * Skärmdumpar som inte ryms inom maxEmbedBytes länkas relativt rapporten.
+ */
+async function writeHtmlReport(outputPath: string, data: ScanResult | SiteScanResult, maxEmbedBytes: number, matrix?: MatrixOptions) {
+    const html = matrix
+        ? generateMatrixHTML(data, matrix)
+        : generateInteractiveReportHTML(data, await loadReportImages(data, { maxBytes: maxEmbedBytes, relativeTo: path.dirname(path.resolve(outputPath)) }));
+    await fs.writeFile(outputPath, html, 'utf-8');
+}
+
+/**
+ * PDF-rapport för en sida med skärmdumparna inbäddade
+ */
+async function writePdfReport(outputPath: string, result: ScanResult, maxEmbedBytes: number) {
+    await generatePDF(generateReportHTML(result, await loadReportImages(result, { maxBytes: maxEmbedBytes })), outputPath);
+}
+
+/**
+ * Skriver de filer som konfigurationens "outputs" anger
+ */
+async function writeConfigOutputs(
+    outputs: OutputConfig[],
+    data: ScanResult | SiteScanResult,
+    baselineDiff: BaselineDiff | undefined,
+    quiet: boolean,
+    maxEmbedBytes: number,
+    matrix?: MatrixOptions
+) {
+    for (const output of outputs) {
+        if (output.format === 'html') {
+            await writeHtmlReport(output.path, data, maxEmbedBytes, matrix);
+        } else if (output.format === 'pdf' && matrix) {
+            await generatePDF(generateMatrixHTML(data, matrix), output.path);
+        } else if (output.format === 'pdf') {
+            if ('pages' in data) {
+                if (!quiet) console.warn(chalk.yellow(t('cli.crawl_pdf_unsupported')));
+                continue;
+            }
+            await writePdfReport(output.path, data, maxEmbedBytes);
+        } else {
+            await writeOutput(output.format, data, baselineDiff, output.path, matrix);
+        }
+        if (!quiet) console.log(chalk.green(t('cli.output_saved', { format: output.format.toUpperCase(), path: output.path })));
+    }
+}
+
+/**
+ * Skriver en Playwright-fil per pseudo-automation-regel till --generate-tests-katalogen
+ */
+async function writeGeneratedTests(dir: string, result: ScanResult | SiteScanResult, quiet: boolean) {
+    const tests = new PseudoAutomationEngine().generateTestSuite(result, { lang: getCurrentLang() });
+    await fs.mkdir(dir, { recursive: true });
+    for (const test of tests) {
+        await fs.writeFile(path.join(dir, test.fileName), test.content, 'utf-8');
+    }
+    if (!quiet) console.log(chalk.magenta(t('cli.tests_written', { count: tests.length, dir })));
+}
+
+/**
+ * Iframe-scanning: --frame-* slår på den och skriver över motsvarande värde i konfigurationen
+ */
+function resolveFrameOptions(
+    flags: { frames?: boolean; frameAllow?: string[]; frameDeny?: string[]; frameTimeout?: string },
+    configFrames: boolean | FrameConfig | undefined
+): FrameScanOptions | undefined {
+    const fromConfig = configFrames === true ? {} : configFrames || undefined;
+    const enabled = flags.frames || flags.frameAllow || flags.frameDeny || flags.frameTimeout;
+    if (!enabled && !fromConfig) return undefined;
+
+    const timeout = flags.frameTimeout !== undefined ? parseInt(flags.frameTimeout, 10) : undefined;
+    if (timeout !== undefined && !(timeout > 0)) {
+        fatal(`Invalid --frame-timeout '${flags.frameTimeout}'`, 'Use a number of milliseconds, e.g. 10000');
+    }
+    return {
+        ...fromConfig,
+        ...(flags.frameAllow ? { allow: flags.frameAllow } : {}),
+        ...(flags.frameDeny ? { deny: flags.frameDeny } : {}),
+        ...(timeout !== undefined ? { timeout } : {})
+    };
+}
+
 const program = new Command();
 
 program
     .name('hd-a11y-scan')
     .description('HolmDigital Regulatory Scanner')
-    .version('0.1.0');
+    .version('0.1.0')
+    // Flaggor efter "audit" tillhör underkommandot (båda har t.ex. --lang och --json)
+    .enablePositionalOptions();
+
+program
+    .command('audit')
+    .description('Walk through the manual checks, record pass/fail/N/A in an audit file and print the combined verdict')
+    .argument('[file]', 'Audit file; created if missing, resumed otherwise', DEFAULT_AUDIT_FILE)
+    .option('--config <path>', 'Path to config file (default: hd-a11y.config.{ts,js,json} in the current directory)')
+    .option('--lang <code>', 'Language code (en, sv, de, fr, es)')
+    .option('--url <url>', 'Product under test (stored in the audit file)')
+    .option('--standard <id>', 'Regulatory standard (wcag, en301549, dos-lagen; default dos-lagen)')
+    .option('--category <name>', 'Product category for the ICT manual checks, e.g. "pdf" (repeatable, stored in the audit file)', collect)
+    .option('--scan <file>', 'JSON output from a scan to include in the verdict (repeatable, stored in the audit file)', collect)
+    .option('--tester <name>', 'Name recorded with each result')
+    .option('--review', 'Also go through checks that already have a result')
+    .option('--verdict', 'Only print the combined verdict, without prompts')
+    .option('--json', 'Print the verdict as JSON (implies --verdict)')
+    .option('--ci', 'Exit with code 1 unless the verdict is PASS')
+    .action(async (file: string, options) => {
+        let loaded: LoadedConfig | null = null;
+        try {
+            loaded = await loadConfig(options.config);
+        } catch (error) {
+            fatal(errorText(error));
+        }
+        const config: HdA11yConfig = loaded?.config ?? {};
+        setLanguage(options.lang ?? config.lang ?? 'en');
+
+        const standard = options.standard ?? config.standard;
+        if (standard && !isComplianceStandard(standard)) {
+            fatal(`Unknown standard '${standard}'`, 'Valid values: wcag, en301549, dos-lagen');
+        }
+
+        try {
+            const existing = await loadAuditFile(file);
+            let audit = existing ?? createAuditFile({ url: options.url, standard, categories: options.category });
+
+            // Flaggor för en befintlig granskning läggs till i filen och gäller även nästa session
+            const dir = path.dirname(path.resolve(file));
+            const scans: string[] = (options.scan ?? []).map((scan: string) => path.relative(dir, path.resolve(scan)));
+            audit = {
+                ...audit,
+                url: options.url ?? audit.url,
+                standard: standard ?? audit.standard,
+                categories: Array.from(new Set([...audit.categories, ...(options.category ?? [])])),
+                scans: Array.from(new Set([...audit.scans, ...scans]))
+            };
+            if (!existing || options.url || standard || options.category || options.scan) {
+                audit = await saveAuditFile(file, audit);
+            }
+
+            const scanResults = await loadAuditScans(audit, file);
+            const items = getAuditItems(audit.standard, audit.categories, getCurrentLang(), scanResults);
+
+            if (!options.verdict && !options.json) {
+                audit = await runAuditSession(file, audit, items, scanResults, { review: options.review, tester: options.tester });
+            }
+
+            const verdict = computeAuditVerdict(audit, scanResults, items);
+            if (options.json) {
+                console.log(JSON.stringify(verdict, null, 2));
+            } else {
+                printAuditVerdict(verdict);
+            }
+
+            if (options.ci && verdict.status !== 'PASS') {
+                if (!options.json) console.error(chalk.red.bold(t('audit.ci_failure', { status: verdict.status })));
+                process.exit(1);
+            }
+        } catch (error) {
+            fatal(errorText(error));
+        }
+    });
 
 program
-    .argument('<url>', 'URL to scan')
-    .option('--lang <code', 'Language code (en, sv)', 'en')
-    .option('--ci', 'Run in CI/CD mode (exit code 1 on critical failures)')
-    .option('--generate-tests', 'Generate Pseudo-Automation tests')
-    .option('--json', 'Output as JSON')
+    .argument('[target]', 'URL, file:// URL, local .html file or directory, or "-" to read HTML from stdin (default: URLs from the config file)')
+    .option('--config <path>', 'Path to config file (default: hd-a11y.config.{ts,js,json} in the current directory)')
+    .option('--group <name>', 'Only scan this URL group from the config file (repeatable)', collect)
+    .option('--lang <code>', 'Language code (en, sv, de, fr, es)')
+    .option('--ci', 'Run in CI/CD mode (exit code 1 on failures)')
+    .option('--fail-on <risk>', 'Lowest risk level that fails the build in CI (low, medium, high, critical, none)')
+    .option('--min-score <n>', 'Minimum compliance score required in CI')
+    .option('--baseline <file>', 'Compare with a saved JSON result; with --ci only new violations fail')
+    .option('--update-baseline', 'Write the current result to the --baseline file')
+    .option('--max-score-drop <points>', 'Allowed score drop compared to the baseline in CI (default 0)')
+    .option('--standard <id>', 'Regulatory standard to scan against (wcag, en301549, dos-lagen; default dos-lagen)')
+    .option('--best-practices', 'Also run axe best-practice rules (reported outside the standard)')
+    .option('--plugin <path>', 'Load a plugin module with custom rules and checks (repeatable)', collect)
+    .option('--scoring <model>', 'Scoring model (fixed, weighted; default fixed)')
+    .option('--checks <list>', 'Engine checks to run besides axe, comma-separated (contrast, reflow, textSpacing, keyboard) or "none" (default: all)')
+    .option('--generate-tests <dir>', 'Write a Playwright .spec.ts file per pseudo-automation rule to this directory')
+    .option('--json', 'Output as JSON (same as --format json)')
+    .option('--format <type>', 'Output format (text, json, sarif, junit; default text)')
+    .option('--output <path>', 'Write json/sarif/junit output to a file instead of stdout')
     .option('--pdf <path>', 'Generate PDF report to path')
+    .option('--html <path>', 'Write a self-contained interactive HTML report to path')
+    .option('--screenshots [dir]', 'Save screenshots of failing elements and the full page (default: "screenshots" next to the --html/--pdf/--output report)')
+    .option('--max-embed-size <mb>', 'Max total size of screenshots embedded in the HTML/PDF report, in MB (default 10)')
+    .option('--report <type>', 'Report type for JSON and PDF output (violations, matrix; default violations)')
+    .option('--manual-results <file>', 'JSON file with manual review outcomes for the conformance matrix')
+    .option('--category <name>', 'Product category for the ICT manual checks in the conformance matrix, e.g. "pdf" (repeatable)', collect)
+    .option('--base-url <url>', 'Base URL for resolving relative assets when scanning HTML from stdin')
     .option('--viewport <size>', 'Set viewport (e.g. "mobile", "desktop", "1024x768")')
-    .action(async (url: string, options) => {
-        setLanguage(options.lang);
+    .option('--header <header>', 'Extra HTTP header for requests to the scanned origins, e.g. "Authorization: Bearer ..." (repeatable)', collect)
+    .option('--cookie <cookie>', 'Cookie for the target URL as "name=value" (repeatable)', collect)
+    .option('--cookies <file>', 'Load cookies from a Netscape cookies.txt or JSON file')
+    .option('--basic-auth <credentials>', 'HTTP Basic Auth as "username:password"')
+    .option('--login-url <url>', 'Log in on this page before scanning')
+    .option('--login-field <field>', 'Login form field as "selector=value" (repeatable)', collect)
+    .option('--login-submit <selector>', 'Submit button on the login page (default: press Enter)')
+    .option('--login-wait <selector>', 'Element that appears once logged in')
+    .option('--login-script <path>', 'Module exporting an async (page) => {} login function')
+    .option('--frames', 'Also scan iframes, each with its own timeout')
+    .option('--frame-allow <origin>', 'Only scan iframes from this origin, e.g. "https://*.stripe.com" (repeatable, implies --frames)', collect)
+    .option('--frame-deny <origin>', 'Never scan iframes from this origin (repeatable, implies --frames)', collect)
+    .option('--frame-timeout <ms>', 'Max time per iframe in milliseconds (default 10000)')
+    .option('--flow <name|file>', 'Run a user flow (by name from the config file, or a JSON/TS flow file) and scan at its "scan" steps')
+    .option('--crawl', 'Crawl the site (sitemap.xml + same-origin links) and scan every page')
+    .option('--max-pages <n>', 'Max pages to scan in crawl mode', '50')
+    .option('--max-depth <n>', 'Max link depth from the start URL in crawl mode', '2')
+    .option('--include <pattern>', 'Only crawl URLs matching pattern (glob, repeatable)', collect)
+    .option('--exclude <pattern>', 'Never crawl URLs matching pattern (glob, repeatable)', collect)
+    .option('--ignore-robots', 'Ignore robots.txt rules in crawl mode')
+    .option('--no-sitemap', 'Do not read sitemap.xml in crawl mode')
+    .action(async (input: string | undefined, options) => {
+        // Konfigurationsfilen läses först – flaggor skriver sedan över dess värden
+        let loaded: LoadedConfig | null = null;
+        try {
+            loaded = await loadConfig(options.config);
+        } catch (error) {
+            fatal(errorText(error));
+        }
+        const config: HdA11yConfig = loaded?.config ?? {};
 
-        // Validate URL format first
-        if (!isValidUrl(url)) {
-            console.error(chalk.red(`Error: Invalid URL format '${url}'`));
-            console.error(chalk.gray('URL must start with http:// or https://'));
-            process.exit(1);
+        setLanguage(options.lang ?? config.lang ?? 'en');
+
+        let flow: UserFlow | undefined;
+        if (options.flow) {
+            try {
+                flow = config.flows?.find(candidate => candidate.name === options.flow) ?? await loadFlowFile(options.flow);
+            } catch (error) {
+                fatal(errorText(error));
+            }
+            if (options.crawl) fatal('--flow cannot be combined with --crawl');
+        }
+
+        // Validate target first (URL, file, directory, stdin, the flow's start page or the config's URLs)
+        let target: ScanTarget;
+        let pageViewport: Viewport | undefined;
+        try {
+            if (input) {
+                target = await resolveTarget(input);
+            } else if (flow?.url) {
+                target = { type: 'url', url: flow.url };
+            } else if (flow) {
+                fatal(`Flow '${flow.name}' has no "url" – pass a target URL`);
+            } else {
+                let pages = resolveConfigTargets(config, options.group);
+                if (pages.length === 0) {
+                    fatal('No target given', loaded
+                        ? `No URLs found in ${loaded.path}`
+                        : 'Pass a URL, file or directory, or add "urls" to hd-a11y.config.json');
+                }
+                // --viewport gäller alla sidor, även de som har en egen viewport i konfigurationen
+                if (options.viewport) pages = pages.map(page => ({ url: page.url }));
+
+                target = pages.length === 1 ? { type: 'url', url: pages[0].url } : { type: 'pages', targets: pages };
+                pageViewport = pages.length === 1 ? pages[0].viewport : undefined;
+            }
+        } catch (error) {
+            fatal(errorText(error));
+        }
+
+        if (flow && target.type !== 'url') {
+            fatal('--flow requires a single URL as target');
+        }
+
+        if (options.crawl && (target.type !== 'url' || !isValidUrl(target.url))) {
+            fatal('Crawl mode requires an http:// or https:// URL');
+        }
+
+        if (options.baseUrl && !isValidUrl(options.baseUrl) && !options.baseUrl.startsWith('file:')) {
+            fatal(`Invalid base URL '${options.baseUrl}'`);
+        }
+
+        const url = target.type === 'url' ? target.url
+            : target.type === 'files' ? target.root
+                : target.type === 'pages' ? target.targets[0].url
+                    : options.baseUrl ?? 'about:blank';
+
+        const standard = options.standard ?? config.standard ?? 'dos-lagen';
+        if (!isComplianceStandard(standard)) {
+            fatal(`Unknown standard '${standard}'`, 'Valid values: wcag, en301549, dos-lagen');
+        }
+
+        const format: OutputFormat = options.json ? 'json' : options.format ?? 'text';
+        if (!OUTPUT_FORMATS.includes(format)) {
+            fatal(`Unknown format '${format}'`, `Valid values: ${OUTPUT_FORMATS.join(', ')}`);
+        }
+
+        const report: ReportType = options.report ?? 'violations';
+        if (!REPORT_TYPES.includes(report)) {
+            fatal(`Unknown report type '${report}'`, `Valid values: ${REPORT_TYPES.join(', ')}`);
+        }
+        let matrix: MatrixOptions | undefined;
+        if (report === 'matrix') {
+            try {
+                const manualResults = options.manualResults ? await loadManualResults(options.manualResults) : [];
+                matrix = { manualResults, categories: options.category ?? [] };
+            } catch (error) {
+                fatal(errorText(error));
+            }
+        }
+
+        const ci: CiSettings = {
+            enabled: Boolean(options.ci),
+            failOn: options.failOn ?? config.ci?.failOn ?? 'critical',
+            minScore: options.minScore !== undefined ? Number(options.minScore) : config.ci?.minScore
+        };
+        // NaN skulle tyst stänga av spärren (score < NaN är aldrig sant)
+        if (ci.minScore !== undefined && (!Number.isFinite(ci.minScore) || ci.minScore < 0 || ci.minScore > 100)) {
+            fatal(`Invalid minimum score '${options.minScore ?? config.ci?.minScore}'`, 'Give a number from 0 to 100, e.g. 90');
+        }
+        if (ci.failOn !== 'none' && !RISK_LEVELS.includes(ci.failOn)) {
+            fatal(`Unknown risk level '${ci.failOn}'`, `Valid values: ${RISK_LEVELS.join(', ')}, none`);
+        }
+
+        const baselinePath: string | undefined = options.baseline ?? config.ci?.baseline;
+        const baselineSettings = baselinePath ? {
+            path: baselinePath,
+            maxScoreDrop: options.maxScoreDrop !== undefined ? Number(options.maxScoreDrop) : config.ci?.maxScoreDrop ?? 0,
+            update: Boolean(options.updateBaseline)
+        } : null;
+        if (baselineSettings && (!Number.isFinite(baselineSettings.maxScoreDrop) || baselineSettings.maxScoreDrop < 0)) {
+            fatal(`Invalid --max-score-drop '${options.maxScoreDrop}'`, 'Give the allowed drop in score points, e.g. 2');
         }
 
-        if (!options.json) {
+        let checks: EngineChecks | undefined;
+        try {
+            const names: string[] | undefined = options.checks ? options.checks.split(',').map((name: string) => name.trim()) : config.checks;
+            checks = names ? resolveChecks(names) : undefined;
+        } catch (error) {
+            fatal(errorText(error));
+        }
+
+        let auth: AuthOptions | undefined;
+        try {
+            auth = await buildAuthOptions(options, config.auth, url);
+        } catch (error) {
+            fatal(errorText(error));
+        }
+
+        const frames = resolveFrameOptions(options, config.frames);
+
+        let scoring: ScoringModel | undefined;
+        try {
+            const setting = options.scoring ?? config.scoring;
+            scoring = setting ? resolveScoring(setting) : undefined;
+        } catch (error) {
+            fatal(errorText(error));
+        }
+
+        // Bilderna hamnar bredvid rapporten om ingen katalog anges
+        const reportPath: string | undefined = options.html ?? options.pdf ?? options.output;
+        const screenshotDir: string | undefined = typeof options.screenshots === 'string' ? options.screenshots
+            : options.screenshots ? (reportPath ? path.join(path.dirname(reportPath), 'screenshots') : 'hd-a11y-screenshots')
+                : undefined;
+        const maxEmbedBytes = options.maxEmbedSize !== undefined ? parseFloat(options.maxEmbedSize) * 1024 * 1024 : DEFAULT_MAX_EMBED_BYTES;
+        if (Number.isNaN(maxEmbedBytes) || maxEmbedBytes < 0) {
+            fatal(`Invalid --max-embed-size '${options.maxEmbedSize}'`, 'Give the size in MB, e.g. 5');
+        }
+
+        // Number() i stället för parseInt, så att t.ex. "10abc" inte godtas
+        const maxPages = Number(options.maxPages);
+        const maxDepth = Number(options.maxDepth);
+        if (!Number.isInteger(maxPages) || maxPages < 1) {
+            fatal(`Invalid --max-pages '${options.maxPages}'`, 'Give a whole number of pages, e.g. 50');
+        }
+        if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+            fatal(`Invalid --max-depth '${options.maxDepth}'`, 'Give a whole number of link steps, e.g. 2 (0 = only the start URL)');
+        }
+
+        let plugins: ScannerPlugin[] = [];
+        try {
+            plugins = await resolvePlugins([...(config.plugins ?? []), ...(options.plugin ?? [])]);
+        } catch (error) {
+            fatal(errorText(error));
+        }
+
+        const viewportSetting = options.viewport ?? pageViewport ?? config.viewport;
+        const viewport = resolveViewport(viewportSetting) ?? { width: 1280, height: 720 }; // Default Desktop
+
+        // Maskinläsbar output på stdout kräver att all annan konsolutskrift tystas
+        const quiet = format !== 'text' && !options.output;
+
+        if (!quiet) {
             console.log(chalk.blue.bold(t('cli.title')));
+            if (loaded) console.log(chalk.gray(t('cli.config_loaded', { path: loaded.path })));
             console.log(chalk.gray(t('cli.scanning', { url })));
         }
 
-        const spinner = !options.json ? ora(t('cli.initializing')).start() : null;
+        const spinner = !quiet ? ora(t('cli.initializing')).start() : null;
         let scanner: RegulatoryScanner | undefined;
 
         try {
-            // Parse viewport options
-            let viewport = { width: 1280, height: 720 }; // Default Desktop
-            if (options.viewport) {
-                if (options.viewport === 'mobile') viewport = { width: 375, height: 667 };
-                else if (options.viewport === 'desktop') viewport = { width: 1920, height: 1080 };
-                else if (options.viewport === 'tablet') viewport = { width: 768, height: 1024 };
-                else {
-                    const [w, h] = options.viewport.split('x').map(Number);
-                    if (w && h) viewport = { width: w, height: h };
-                }
-            }
-
             scanner = new RegulatoryScanner({
                 url,
-                failOnCritical: options.ci,
+                standard,
+                includeBestPractices: options.bestPractices ?? config.includeBestPractices,
+                failOnCritical: ci.enabled,
                 viewport,
-                silent: options.json // Suppress debug output for JSON mode
+                rules: config.rules,
+                checks,
+                auth,
+                frames,
+                plugins,
+                scoring,
+                screenshots: screenshotDir ? { dir: screenshotDir } : undefined,
+                silent: quiet // Suppress debug output for machine-readable output
             });
 
+            if (flow || options.crawl || target.type === 'files' || target.type === 'pages') {
+                if (spinner) {
+                    spinner.text = flow ? t('cli.running_flow', { name: flow.name })
+                        : options.crawl ? t('cli.crawling', { url })
+                            : t('cli.analyzing');
+                }
+
+                const site = flow
+                    ? await scanner.runFlow({ ...flow, url, viewport: options.viewport ? viewport : flow.viewport })
+                    : target.type === 'files'
+                        ? await scanner.scanMany(target.urls)
+                        : target.type === 'pages'
+                            ? await scanner.scanMany(target.targets)
+                            : await scanner.crawl({
+                                maxPages,
+                                maxDepth,
+                                include: options.include,
+                                exclude: options.exclude,
+                                respectRobotsTxt: !options.ignoreRobots,
+                                useSitemap: options.sitemap
+                            });
+
+                if (spinner) spinner.succeed(t('cli.complete'));
+                if (screenshotDir && !quiet) console.log(chalk.gray(t('cli.screenshots_saved', { dir: screenshotDir })));
+
+                if (options.pdf && matrix) {
+                    await generatePDF(generateMatrixHTML(site, matrix), options.pdf);
+                    if (!quiet) console.log(chalk.green(t('cli.matrix_pdf_saved', { path: options.pdf })));
+                } else if (options.pdf) {
+                    console.warn(chalk.yellow(t('cli.crawl_pdf_unsupported')));
+                }
+
+                if (options.html) {
+                    await writeHtmlReport(options.html, site, maxEmbedBytes, matrix);
+                    if (!quiet) console.log(chalk.green(t('cli.html_saved', { path: options.html })));
+                }
+
+                const baseline = baselineSettings ? await runBaseline(site, baselineSettings, quiet) : null;
+
+                await writeOutput(format, site, baseline?.diff, options.output, matrix);
+                await writeConfigOutputs(config.outputs ?? [], site, baseline?.diff, quiet, maxEmbedBytes, matrix);
+                if (!quiet) {
+                    printSiteResult(site);
+                    if (baseline) printBaselineDiff(baseline.diff);
+                }
+                if (options.generateTests) await writeGeneratedTests(options.generateTests, site, quiet);
+
+                exitOnCiFailure(ci, quiet, site, baseline);
+                return;
+            }
+
             if (spinner) spinner.text = t('cli.analyzing');
 
-            const result = await scanner.scan();
+            const result = target.type === 'stdin'
+                ? await scanner.scanHtml(await readStdin(), options.baseUrl)
+                : await scanner.scan();
 
             if (spinner) spinner.succeed(t('cli.complete'));
+            if (screenshotDir && !quiet) console.log(chalk.gray(t('cli.screenshots_saved', { dir: screenshotDir })));
 
             // PDF Generation
             if (options.pdf) {
                 if (spinner) spinner.start(t('cli.generating_pdf'));
-                const html = generateReportHTML(result);
-                await generatePDF(html, options.pdf);
-                if (spinner) spinner.succeed(t('cli.pdf_saved', { path: options.pdf }));
+                if (matrix) {
+                    await generatePDF(generateMatrixHTML(result, matrix), options.pdf);
+                } else {
+                    await writePdfReport(options.pdf, result, maxEmbedBytes);
+                }
+                if (spinner) spinner.succeed(t(matrix ? 'cli.matrix_pdf_saved' : 'cli.pdf_saved', { path: options.pdf }));
             }
 
-            if (options.json) {
-                console.log(JSON.stringify(result, null, 2));
-            } else {
+            if (options.html) {
+                await writeHtmlReport(options.html, result, maxEmbedBytes, matrix);
+                if (!quiet) console.log(chalk.green(t('cli.html_saved', { path: options.html })));
+            }
+
+            const baseline = baselineSettings ? await runBaseline(result, baselineSettings, quiet) : null;
+
+            await writeOutput(format, result, baseline?.diff, options.output, matrix);
+            await writeConfigOutputs(config.outputs ?? [], result, baseline?.diff, quiet, maxEmbedBytes, matrix);
+            if (!quiet) {
                 // Human readable output
                 console.log(chalk.bold(t('cli.score', { score: result.score })));
+                if (result.scoreBreakdown) printScoreBreakdown(result.scoreBreakdown);
 
                 const statusColor = result.complianceStatus === 'PASS' ? chalk.green : chalk.red;
                 console.log(statusColor.bold(t('cli.status', { status: result.complianceStatus })));
@@ -104,9 +838,10 @@ program
                     console.log(chalk.red(t('cli.not_compliant')));
                 }
 
+                console.log(chalk.blue(t('cli.standard', { standard: getStandardProfile(result.standard).name })));
                 console.log(chalk.gray('----------------------------------------'));
 
-                if (options.viewport) {
+                if (viewportSetting) {
                     console.log(chalk.blue(t('cli.viewport', { width: viewport.width, height: viewport.height })));
                 }
 
@@ -143,7 +878,9 @@ program
                         report.failingNodes.forEach((node: any, index: number) => {
                             if (index < 5) { // Limit output
                                 console.log(chalk.cyan(`➜ ${node.target}`));
+                                if (node.frame) console.log(chalk.magenta(`  ${t('cli.in_frame', { url: node.frame })}`));
                                 console.log(chalk.gray(`  ${node.html}`));
+                                if (node.screenshot) console.log(chalk.gray(`  ${t('cli.screenshot', { marker: node.marker, path: node.screenshot })}`));
                             }
                         });
                         // @ts-ignore
@@ -153,25 +890,29 @@ program
                     }
                 });
 
+                if (result.outOfScope.length > 0) {
+                    console.log(chalk.gray('\n----------------------------------------'));
+                    console.log(chalk.gray.bold(t('cli.out_of_scope', { standard: getStandardProfile(result.standard).name })));
+                    result.outOfScope.forEach((report: any) => {
+                        const nodeCount = report.failingNodes?.length ?? 0;
+                        console.log(chalk.gray(`  ${report.ruleId} (WCAG ${report.wcagCriteria}) - ${nodeCount} element(s)`));
+                    });
+                }
+
+                printNeedsReview([result]);
+                if (result.passes && result.passes.length > 0) {
+                    console.log(chalk.green(`\n${t('cli.passed_rules', { count: result.passes.length })}`));
+                }
+
                 console.log(chalk.gray('\n----------------------------------------'));
                 console.log(`Critical: ${result.stats.critical} | High: ${result.stats.high} | Medium: ${result.stats.medium} | Total: ${result.stats.total}\n`);
 
-                if (options.generateTests) {
-                    console.log(chalk.magenta.bold(t('cli.pseudo_tests')));
-                    const automation = new PseudoAutomationEngine();
-                    result.reports.forEach(report => {
-                        if (report.testability.pseudoAutomation) {
-                            console.log(chalk.cyan(t('cli.test_for', { ruleId: report.ruleId })));
-                            console.log(chalk.gray(automation.generateTestScript(report, url)));
-                        }
-                    });
-                }
+                if (baseline) printBaselineDiff(baseline.diff);
             }
 
-            if (options.ci && result.stats.critical > 0) {
-                if (!options.json) console.error(chalk.red(t('cli.critical_failure')));
-                process.exit(1);
-            }
+            if (options.generateTests) await writeGeneratedTests(options.generateTests, result, quiet);
+
+            exitOnCiFailure(ci, quiet, result, baseline);
 
         } catch (error) {
             if (spinner) spinner.fail(t('cli.scan_failed'));
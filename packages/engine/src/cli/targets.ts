@@ -0,0 +1,88 @@
+/**
+ * Tolkning av CLI-målet: URL, lokal fil, katalog med .html-filer eller stdin ("-")
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL, fileURLToPath } from 'url';
+import type { PageTarget } from '../core/regulatory-scanner';
+
+export type ScanTarget =
+    | { type: 'url'; url: string }
+    | { type: 'files'; root: string; urls: string[] }
+    | { type: 'pages'; targets: PageTarget[] }
+    | { type: 'stdin' };
+
+const IGNORED_DIRECTORIES = new Set(['node_modules']);
+
+/**
+ * Hittar alla .html/.htm-filer i en katalog (rekursivt, sorterat)
+ */
+async function findHtmlFiles(directory: string): Promise<string[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+        if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) continue;
+        const fullPath = path.join(directory, entry.name);
+
+        if (entry.isDirectory()) {
+            files.push(...await findHtmlFiles(fullPath));
+        } else if (/\.html?$/i.test(entry.name)) {
+            files.push(fullPath);
+        }
+    }
+
+    return files.sort();
+}
+
+async function resolvePath(filePath: string): Promise<ScanTarget> {
+    const absolute = path.resolve(filePath);
+    const stat = await fs.stat(absolute).catch(() => null);
+
+    if (!stat) {
+        throw new Error(`Invalid target '${filePath}'. Use an http(s):// URL, a file:// URL, a local path or "-" for stdin.`);
+    }
+
+    if (stat.isDirectory()) {
+        const files = await findHtmlFiles(absolute);
+        if (files.length === 0) {
+            throw new Error(`No .html files found in '${filePath}'`);
+        }
+        return { type: 'files', root: pathToFileURL(absolute).href, urls: files.map(file => pathToFileURL(file).href) };
+    }
+
+    return { type: 'url', url: pathToFileURL(absolute).href };
+}
+
+export async function resolveTarget(input: string): Promise<ScanTarget> {
+    if (input === '-') {
+        return { type: 'stdin' };
+    }
+
+    let url: URL | null = null;
+    try {
+        url = new URL(input);
+    } catch {
+        // Inte en URL – tolka som sökväg
+    }
+
+    if (url && (url.protocol === 'http:' || url.protocol === 'https:')) {
+        return { type: 'url', url: url.href };
+    }
+
+    if (url && url.protocol === 'file:') {
+        return await resolvePath(fileURLToPath(url));
+    }
+
+    // Windows-sökvägar (C:\...) tolkas av URL som protokoll, så vi faller tillbaka på filsystemet
+    return await resolvePath(input);
+}
+
+export async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
@@ -0,0 +1,352 @@
+/**
+ * Projektkonfiguration för scannern (hd-a11y.config.json / .ts / .js)
+ * CLI-flaggor skriver över värden från filen.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import Ajv, { ValidateFunction } from 'ajv';
+import { createJiti } from 'jiti';
+import type { DiggRisk } from '@holmdigital/standards';
+import { ENGINE_CHECK_NAMES } from '../core/regulatory-scanner';
+import type { EngineChecks, PageTarget, RuleOverrides, Viewport } from '../core/regulatory-scanner';
+import type { ComplianceStandard } from '../core/standard-profiles';
+import type { AuthOptions, LoginScript, LoginStep } from '../core/auth';
+import type { UserFlow } from '../core/user-flow';
+import type { ScannerPlugin } from '../core/plugins';
+import { createWeightedScoring, getScoringModel, ScoringModel, WeightedScoringOptions } from '../core/scoring';
+import { configSchema } from './config-schema';
+import { flowSchema } from './flow-schema';
+
+export type ViewportSetting = 'mobile' | 'tablet' | 'desktop' | `${number}x${number}` | Viewport;
+
+export interface UrlConfig {
+    url: string;
+    name?: string;
+    viewport?: ViewportSetting;
+}
+
+export interface UrlGroupConfig {
+    urls: Array<string | UrlConfig>;
+    viewport?: ViewportSetting;
+}
+
+export interface CiThresholds {
+    /** Lägsta risknivå som fäller bygget (default 'critical') */
+    failOn?: DiggRisk | 'none';
+    minScore?: number;
+    maxScoreDrop?: number;
+    baseline?: string;
+}
+
+export interface OutputConfig {
+    format: 'json' | 'sarif' | 'junit' | 'pdf' | 'html';
+    path: string;
+}
+
+/**
+ * Som AuthOptions, men inloggningsskriptet anges som sökväg till en modul
+ */
+export interface AuthConfig extends Omit<AuthOptions, 'login'> {
+    login?: LoginStep | { script: string };
+}
+
+/**
+ * Iframe-scanning (se FrameScanOptions); i filen anges mönster som strängar
+ */
+export interface FrameConfig {
+    allow?: string[];
+    deny?: string[];
+    timeout?: number;
+    maxFrames?: number;
+}
+
+/**
+ * Viktad poängmodell med egna vikter (se WeightedScoringOptions)
+ */
+export interface WeightedScoringConfig extends WeightedScoringOptions {
+    model: 'weighted';
+}
+
+export type ScoringSetting = 'fixed' | 'weighted' | WeightedScoringConfig | ScoringModel;
+
+export interface HdA11yConfig {
+    urls?: Array<string | UrlConfig>;
+    groups?: Record<string, UrlGroupConfig>;
+    lang?: string;
+    standard?: ComplianceStandard;
+    includeBestPractices?: boolean;
+    checks?: Array<keyof EngineChecks>;
+    viewport?: ViewportSetting;
+    auth?: AuthConfig;
+    frames?: boolean | FrameConfig;
+    scoring?: ScoringSetting; // Egen ScoringModel bara i TS/JS-konfiguration
+    plugins?: Array<string | ScannerPlugin>; // Sökväg till en plugin-modul, eller pluginet självt (TS/JS-konfiguration)
+    flows?: UserFlow[];
+    rules?: RuleOverrides;
+    ci?: CiThresholds;
+    outputs?: OutputConfig[];
+}
+
+export interface LoadedConfig {
+    path: string;
+    config: HdA11yConfig;
+}
+
+export const CONFIG_FILE_NAMES = [
+    'hd-a11y.config.ts',
+    'hd-a11y.config.mts',
+    'hd-a11y.config.js',
+    'hd-a11y.config.mjs',
+    'hd-a11y.config.cjs',
+    'hd-a11y.config.json'
+];
+
+const VIEWPORT_PRESETS: Record<string, Viewport> = {
+    mobile: { width: 375, height: 667 },
+    tablet: { width: 768, height: 1024 },
+    desktop: { width: 1920, height: 1080 }
+};
+
+/**
+ * Typad hjälpare för hd-a11y.config.ts
+ */
+export function defineConfig(config: HdA11yConfig): HdA11yConfig {
+    return config;
+}
+
+/**
+ * Tolkar en viewport-inställning ("mobile", "1024x768" eller { width, height })
+ */
+export function resolveViewport(setting?: ViewportSetting | string): Viewport | undefined {
+    if (!setting) return undefined;
+    if (typeof setting === 'object') return setting;
+    if (VIEWPORT_PRESETS[setting]) return VIEWPORT_PRESETS[setting];
+
+    const [width, height] = setting.split('x').map(Number);
+    return width && height ? { width, height } : undefined;
+}
+
+/**
+ * Lista med kontroller ("contrast", ...) → EngineChecks. Kontroller som inte listas stängs av.
+ */
+export function resolveChecks(names: string[]): EngineChecks {
+    const unknown = names.filter(name => name !== 'none' && !ENGINE_CHECK_NAMES.includes(name as keyof EngineChecks));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown check(s): ${unknown.join(', ')} (valid: ${ENGINE_CHECK_NAMES.join(', ')}, none)`);
+    }
+    return Object.fromEntries(ENGINE_CHECK_NAMES.map(name => [name, names.includes(name)])) as EngineChecks;
+}
+
+/**
+ * Poängmodell från namn ("fixed", "weighted"), vikter eller en egen modell
+ */
+export function resolveScoring(setting: ScoringSetting | string): ScoringModel {
+    if (typeof setting === 'string') return getScoringModel(setting);
+    if ('name' in setting) {
+        if (typeof setting.factors !== 'function') {
+            throw new Error(`Scoring model '${setting.name}' must have a factors(report) function`);
+        }
+        return setting;
+    }
+    const { model, ...weights } = setting;
+    return createWeightedScoring(weights);
+}
+
+let ajv: Ajv | null = null;
+const validators = new Map<object, ValidateFunction>();
+
+/**
+ * Validerar data mot ett schema. Kastar ett fel med alla avvikelser listade.
+ */
+function assertValid<T>(schema: object, data: unknown, what: string): T {
+    // discriminator ger ett fel per flödessteg i stället för ett per oneOf-gren
+    ajv ??= new Ajv({ allErrors: true, discriminator: true });
+    let validate = validators.get(schema);
+    if (!validate) {
+        validate = ajv.compile(schema);
+        validators.set(schema, validate);
+    }
+
+    if (!validate(data)) {
+        const issues = (validate.errors ?? []).map(error => {
+            const location = error.instancePath || '(root)';
+            const extra = error.params && 'additionalProperty' in error.params
+                ? ` '${error.params.additionalProperty}'`
+                : error.params && 'allowedValues' in error.params
+                    ? ` (${(error.params.allowedValues as string[]).join(', ')})`
+                    : '';
+            return `  ${location} ${error.message}${extra}`;
+        });
+        throw new Error(`Invalid ${what}:\n${issues.join('\n')}`);
+    }
+
+    return data as T;
+}
+
+/**
+ * Validerar en konfiguration mot schemat
+ */
+export function validateConfig(config: unknown, source: string = 'config'): HdA11yConfig {
+    return assertValid<HdA11yConfig>(configSchema, config, `configuration in ${source}`);
+}
+
+/**
+ * Validerar ett user flow mot schemat
+ */
+export function validateFlow(flow: unknown, source: string = 'flow'): UserFlow {
+    return assertValid<UserFlow>(flowSchema, flow, `flow in ${source}`);
+}
+
+/**
+ * Letar upp en konfigfil i katalogen
+ */
+export async function findConfigFile(cwd: string = process.cwd()): Promise<string | null> {
+    for (const name of CONFIG_FILE_NAMES) {
+        const candidate = path.join(cwd, name);
+        const exists = await fs.access(candidate).then(() => true, () => false);
+        if (exists) return candidate;
+    }
+    return null;
+}
+
+/**
+ * .ts/.js/.mjs/.cjs laddas via jiti så att TypeScript fungerar utan byggsteg
+ */
+async function importModule(modulePath: string): Promise<unknown> {
+    const jiti = createJiti(modulePath, { interopDefault: true });
+    return await jiti.import(modulePath, { default: true });
+}
+
+async function readConfigFile(configPath: string): Promise<unknown> {
+    if (configPath.endsWith('.json')) {
+        return JSON.parse(await fs.readFile(configPath, 'utf-8'));
+    }
+    return await importModule(configPath);
+}
+
+/**
+ * Laddar ett inloggningsskript: en modul vars default-export är async (page) => { ... }
+ */
+export async function loadLoginScript(scriptPath: string): Promise<LoginScript> {
+    const exported = await importModule(path.resolve(scriptPath));
+    if (typeof exported !== 'function') {
+        throw new Error(`Login script '${scriptPath}' must export a function as default`);
+    }
+    return exported as LoginScript;
+}
+
+/**
+ * Laddar ett plugin: en modul vars default-export är ett ScannerPlugin
+ */
+export async function loadPlugin(pluginPath: string): Promise<ScannerPlugin> {
+    let exported: unknown;
+    try {
+        exported = await importModule(path.resolve(pluginPath));
+    } catch (error) {
+        throw new Error(`Could not load plugin '${pluginPath}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!exported || typeof exported !== 'object' || typeof (exported as ScannerPlugin).name !== 'string') {
+        throw new Error(`Plugin '${pluginPath}' must export a plugin object with a name as default`);
+    }
+    return exported as ScannerPlugin;
+}
+
+export async function resolvePlugins(entries: Array<string | ScannerPlugin>): Promise<ScannerPlugin[]> {
+    return Promise.all(entries.map(entry => (typeof entry === 'string' ? loadPlugin(entry) : entry)));
+}
+
+/**
+ * Gör om konfigurationens auth-block till AuthOptions för scannern
+ */
+export async function resolveAuthConfig(auth: AuthConfig): Promise<AuthOptions> {
+    const { login, ...rest } = auth;
+    return {
+        ...rest,
+        login: login && 'script' in login ? await loadLoginScript(login.script) : login
+    };
+}
+
+/**
+ * Läser och validerar konfigurationen. Relativa sökvägar (outputs, baseline, auth)
+ * löses mot konfigfilens katalog. Returnerar null om ingen fil hittas.
+ */
+export async function loadConfig(configPath?: string, cwd: string = process.cwd()): Promise<LoadedConfig | null> {
+    const resolvedPath = configPath ? path.resolve(cwd, configPath) : await findConfigFile(cwd);
+    if (!resolvedPath) return null;
+
+    let raw: unknown;
+    try {
+        raw = await readConfigFile(resolvedPath);
+    } catch (error) {
+        throw new Error(`Could not load config '${resolvedPath}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const config = validateConfig(raw, path.relative(cwd, resolvedPath) || resolvedPath);
+    const baseDir = path.dirname(resolvedPath);
+
+    return {
+        path: resolvedPath,
+        config: {
+            ...config,
+            outputs: config.outputs?.map(output => ({ ...output, path: path.resolve(baseDir, output.path) })),
+            ci: config.ci && {
+                ...config.ci,
+                baseline: config.ci.baseline && path.resolve(baseDir, config.ci.baseline)
+            },
+            auth: config.auth && resolveAuthPaths(config.auth, baseDir),
+            plugins: config.plugins?.map(entry => (typeof entry === 'string' ? path.resolve(baseDir, entry) : entry))
+        }
+    };
+}
+
+/**
+ * Läser ett user flow från en JSON- eller TS/JS-fil
+ */
+export async function loadFlowFile(flowPath: string): Promise<UserFlow> {
+    const resolved = path.resolve(flowPath);
+    let raw: unknown;
+    try {
+        raw = await readConfigFile(resolved);
+    } catch (error) {
+        throw new Error(`Could not load flow '${flowPath}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return validateFlow(raw, flowPath);
+}
+
+function resolveAuthPaths(auth: AuthConfig, baseDir: string): AuthConfig {
+    return {
+        ...auth,
+        cookieFile: auth.cookieFile && path.resolve(baseDir, auth.cookieFile),
+        login: auth.login && 'script' in auth.login
+            ? { script: path.resolve(baseDir, auth.login.script) }
+            : auth.login
+    };
+}
+
+function toPageTarget(entry: string | UrlConfig, fallback?: ViewportSetting): PageTarget {
+    const { url, viewport } = typeof entry === 'string' ? { url: entry, viewport: undefined } : entry;
+    return { url, viewport: resolveViewport(viewport ?? fallback) };
+}
+
+/**
+ * Alla sidor i konfigurationen: urls + grupper (eller bara de valda grupperna)
+ */
+export function resolveConfigTargets(config: HdA11yConfig, groups?: string[]): PageTarget[] {
+    const groupEntries = Object.entries(config.groups ?? {});
+
+    if (groups && groups.length > 0) {
+        const unknown = groups.filter(name => !config.groups?.[name]);
+        if (unknown.length > 0) {
+            throw new Error(`Unknown URL group(s): ${unknown.join(', ')}`);
+        }
+        return groupEntries
+            .filter(([name]) => groups.includes(name))
+            .flatMap(([, group]) => group.urls.map(entry => toPageTarget(entry, group.viewport ?? config.viewport)));
+    }
+
+    return [
+        ...(config.urls ?? []).map(entry => toPageTarget(entry, config.viewport)),
+        ...groupEntries.flatMap(([, group]) => group.urls.map(entry => toPageTarget(entry, group.viewport ?? config.viewport)))
+    ];
+}
@@ -0,0 +1,265 @@
+/**
+ * JSON Schema för hd-a11y.config.{json,ts,js}
+ */
+
+import { flowSchema } from './flow-schema';
+
+const viewportSchema = {
+    oneOf: [
+        {
+            type: 'string',
+            description: 'Preset (mobile, tablet, desktop) eller WIDTHxHEIGHT',
+            pattern: '^(mobile|tablet|desktop|[0-9]+x[0-9]+)$'
+        },
+        {
+            type: 'object',
+            required: ['width', 'height'],
+            additionalProperties: false,
+            properties: {
+                width: { type: 'integer', minimum: 1 },
+                height: { type: 'integer', minimum: 1 }
+            }
+        }
+    ]
+};
+
+const urlEntrySchema = {
+    oneOf: [
+        { type: 'string', minLength: 1 },
+        {
+            type: 'object',
+            required: ['url'],
+            additionalProperties: false,
+            properties: {
+                url: { type: 'string', minLength: 1 },
+                name: { type: 'string' },
+                viewport: viewportSchema
+            }
+        }
+    ]
+};
+
+const diggRiskSchema = {
+    type: 'string',
+    enum: ['low', 'medium', 'high', 'critical']
+};
+
+const cookieSchema = {
+    type: 'object',
+    required: ['name', 'value'],
+    additionalProperties: false,
+    properties: {
+        name: { type: 'string', minLength: 1 },
+        value: { type: 'string' },
+        url: { type: 'string' },
+        domain: { type: 'string' },
+        path: { type: 'string' },
+        secure: { type: 'boolean' },
+        httpOnly: { type: 'boolean' },
+        sameSite: { type: 'string', enum: ['Strict', 'Lax', 'None'] },
+        expires: { type: 'number' }
+    }
+};
+
+const authSchema = {
+    type: 'object',
+    description: 'Inloggning för sidor bakom autentisering. Värden kan referera miljövariabler med ${NAMN}.',
+    additionalProperties: false,
+    properties: {
+        headers: {
+            type: 'object',
+            additionalProperties: { type: 'string' }
+        },
+        cookies: { type: 'array', items: cookieSchema },
+        cookieFile: {
+            type: 'string',
+            description: 'Netscape cookies.txt eller JSON-array med cookies'
+        },
+        basicAuth: {
+            type: 'object',
+            required: ['username', 'password'],
+            additionalProperties: false,
+            properties: {
+                username: { type: 'string' },
+                password: { type: 'string' }
+            }
+        },
+        login: {
+            oneOf: [
+                {
+                    type: 'object',
+                    required: ['url', 'fields'],
+                    additionalProperties: false,
+                    properties: {
+                        url: { type: 'string', minLength: 1 },
+                        fields: {
+                            type: 'object',
+                            description: 'CSS-selektor → värde',
+                            additionalProperties: { type: 'string' }
+                        },
+                        submit: { type: 'string' },
+                        waitFor: { type: 'string' },
+                        timeout: { type: 'integer', minimum: 0 }
+                    }
+                },
+                {
+                    type: 'object',
+                    required: ['script'],
+                    additionalProperties: false,
+                    properties: {
+                        script: {
+                            type: 'string',
+                            description: 'Modul som exporterar async (page) => { ... }'
+                        }
+                    }
+                }
+            ]
+        }
+    }
+};
+
+const frameSchema = {
+    description: 'Scanna iframes (true = alla). allow/deny matchas mot ramens origin, * är jokertecken.',
+    oneOf: [
+        { type: 'boolean' },
+        {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                allow: { type: 'array', items: { type: 'string', minLength: 1 } },
+                deny: { type: 'array', items: { type: 'string', minLength: 1 } },
+                timeout: { type: 'number', minimum: 1 },
+                maxFrames: { type: 'integer', minimum: 1 }
+            }
+        }
+    ]
+};
+
+const weightsSchema = (keys: string[]) => ({
+    type: 'object',
+    additionalProperties: false,
+    properties: Object.fromEntries(keys.map(key => [key, { type: 'number', minimum: 0 }]))
+});
+
+const scoringSchema = {
+    description: 'Poängmodell: "fixed" (25/15/5/1 per regel), "weighted" eller weighted med egna vikter. En TS/JS-konfiguration kan ange en egen ScoringModel.',
+    oneOf: [
+        { type: 'string', enum: ['fixed', 'weighted'] },
+        {
+            type: 'object',
+            required: ['model'],
+            additionalProperties: false,
+            properties: {
+                model: { const: 'weighted' },
+                risk: weightsSchema(['critical', 'high', 'medium', 'low']),
+                nodes: { type: 'string', enum: ['none', 'log', 'linear'] },
+                level: weightsSchema(['A', 'AA', 'AAA']),
+                eaaImpact: weightsSchema(['none', 'low', 'medium', 'high', 'critical']),
+                maxPerRule: { type: 'number', exclusiveMinimum: 0 }
+            }
+        },
+        { type: 'object', required: ['name'] }
+    ]
+};
+
+export const configSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: 'https://a11y.holmdigital.se/schema/hd-a11y-config.json',
+    title: 'HolmDigital Scanner Configuration',
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        $schema: { type: 'string' },
+        urls: {
+            type: 'array',
+            description: 'Sidor att scanna',
+            items: urlEntrySchema
+        },
+        groups: {
+            type: 'object',
+            description: 'Namngivna grupper av URL:er (väljs med --group)',
+            additionalProperties: {
+                type: 'object',
+                required: ['urls'],
+                additionalProperties: false,
+                properties: {
+                    urls: { type: 'array', minItems: 1, items: urlEntrySchema },
+                    viewport: viewportSchema
+                }
+            }
+        },
+        lang: {
+            type: 'string',
+            enum: ['en', 'sv', 'de', 'fr', 'es']
+        },
+        standard: {
+            type: 'string',
+            enum: ['wcag', 'en301549', 'dos-lagen']
+        },
+        includeBestPractices: { type: 'boolean' },
+        checks: {
+            type: 'array',
+            description: 'Motorns egna kontroller utöver axe (tom lista stänger av alla)',
+            items: { type: 'string', enum: ['contrast', 'reflow', 'textSpacing', 'keyboard'] },
+            uniqueItems: true
+        },
+        viewport: viewportSchema,
+        auth: authSchema,
+        frames: frameSchema,
+        scoring: scoringSchema,
+        plugins: {
+            type: 'array',
+            description: 'Plugin-moduler (sökväg relativt konfigurationsfilen) med egna regler och kontroller',
+            items: {
+                oneOf: [
+                    { type: 'string', minLength: 1 },
+                    { type: 'object', required: ['name'] }
+                ]
+            }
+        },
+        flows: {
+            type: 'array',
+            description: 'Namngivna user flows (körs med --flow <namn>)',
+            items: flowSchema
+        },
+        rules: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                enable: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+                disable: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+                severity: {
+                    type: 'object',
+                    description: 'Skriv över DIGG-risk per ruleId',
+                    additionalProperties: diggRiskSchema
+                }
+            }
+        },
+        ci: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                failOn: {
+                    type: 'string',
+                    description: 'Lägsta risknivå som fäller bygget',
+                    enum: ['low', 'medium', 'high', 'critical', 'none']
+                },
+                minScore: { type: 'number', description: 'Lägsta score (0–100) som krävs i CI', minimum: 0, maximum: 100 },
+                maxScoreDrop: { type: 'number', minimum: 0 },
+                baseline: { type: 'string' }
+            }
+        },
+        outputs: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['format', 'path'],
+                additionalProperties: false,
+                properties: {
+                    format: { type: 'string', enum: ['json', 'sarif', 'junit', 'pdf', 'html'] },
+                    path: { type: 'string', minLength: 1 }
+                }
+            }
+        }
+    }
+} as const;
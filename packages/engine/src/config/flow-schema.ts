@@ -0,0 +1,66 @@
+/**
+ * JSON Schema för user flows (--flow eller "flows" i konfigurationen)
+ */
+
+const selector = { type: 'string', minLength: 1 };
+
+function stepSchema(action: string, required: string[], properties: Record<string, unknown>) {
+    return {
+        type: 'object',
+        required: ['action', ...required],
+        additionalProperties: false,
+        properties: {
+            action: { const: action },
+            name: { type: 'string' },
+            timeout: { type: 'integer', minimum: 0 },
+            ...properties
+        }
+    };
+}
+
+export const flowSchema = {
+    type: 'object',
+    required: ['name', 'steps'],
+    additionalProperties: false,
+    properties: {
+        $schema: { type: 'string' },
+        name: { type: 'string', minLength: 1 },
+        url: { type: 'string', description: 'Startsida (default: scannerns URL)' },
+        viewport: {
+            type: 'object',
+            required: ['width', 'height'],
+            additionalProperties: false,
+            properties: {
+                width: { type: 'integer', minimum: 1 },
+                height: { type: 'integer', minimum: 1 }
+            }
+        },
+        scanAfterEachStep: { type: 'boolean' },
+        steps: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                required: ['action'],
+                discriminator: { propertyName: 'action' },
+                oneOf: [
+                    stepSchema('goto', ['url'], { url: { type: 'string', minLength: 1 } }),
+                    stepSchema('click', ['selector'], { selector }),
+                    stepSchema('type', ['selector', 'text'], { selector, text: { type: 'string' }, clear: { type: 'boolean' } }),
+                    stepSchema('select', ['selector', 'value'], { selector, value: { type: 'string' } }),
+                    stepSchema('press', ['key'], { key: { type: 'string', minLength: 1 }, selector }),
+                    stepSchema('waitFor', ['selector'], { selector, state: { type: 'string', enum: ['visible', 'hidden'] } }),
+                    {
+                        type: 'object',
+                        required: ['action', 'name'],
+                        additionalProperties: false,
+                        properties: {
+                            action: { const: 'scan' },
+                            name: { type: 'string', minLength: 1 }
+                        }
+                    }
+                ]
+            }
+        }
+    }
+};
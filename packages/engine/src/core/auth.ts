@@ -0,0 +1,271 @@
+/**
+ * Autentiserad scanning
+ * Extra headers, cookies (inkl. Netscape cookies.txt), HTTP Basic Auth och ett inloggningssteg
+ * som körs en gång per körning – sessionen delas sedan av alla sidor i webbläsaren.
+ */
+
+import { promises as fs } from 'fs';
+import type { Browser, CookieParam, Page } from 'puppeteer';
+
+export interface BasicAuthCredentials {
+    username: string;
+    password: string;
+}
+
+/**
+ * Deklarativt inloggningsformulär: fyll i fälten, skicka och vänta
+ */
+export interface LoginStep {
+    url: string;                    // Inloggningssidan
+    fields: Record<string, string>; // CSS-selektor → värde
+    submit?: string;                // Selektor för skicka-knappen (default: Enter i sista fältet)
+    waitFor?: string;               // Selektor som finns när inloggningen lyckats
+    timeout?: number;
+}
+
+/**
+ * Egen inloggning (SSO, MFA-stubbar m.m.). Sidan är redan öppen i scannerns webbläsare.
+ */
+export type LoginScript = (page: Page) => Promise<void>;
+
+export interface AuthOptions {
+    headers?: Record<string, string>;
+    cookies?: CookieParam[];
+    cookieFile?: string;            // Netscape cookies.txt eller JSON-array med cookies
+    basicAuth?: BasicAuthCredentials;
+    login?: LoginStep | LoginScript;
+}
+
+const DEFAULT_LOGIN_TIMEOUT = 30000;
+
+/**
+ * Tolkar en Netscape/Mozilla cookies.txt (formatet från curl, wget och webbläsartillägg)
+ */
+export function parseNetscapeCookies(content: string): CookieParam[] {
+    const cookies: CookieParam[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.trim();
+        let httpOnly = false;
+
+        if (line.startsWith('#HttpOnly_')) {
+            httpOnly = true;
+            line = line.slice('#HttpOnly_'.length);
+        } else if (line === '' || line.startsWith('#')) {
+            continue;
+        }
+
+        const fields = line.split('\t');
+        if (fields.length < 7) continue;
+
+        const [domain, , path, secure, expires, name, ...value] = fields;
+        const expiresAt = Number(expires);
+
+        cookies.push({
+            name,
+            value: value.join('\t'),
+            domain,
+            path,
+            secure: secure.toUpperCase() === 'TRUE',
+            httpOnly,
+            // 0 betyder sessionscookie
+            ...(expiresAt > 0 ? { expires: expiresAt } : {})
+        });
+    }
+
+    return cookies;
+}
+
+/**
+ * Läser en cookie-fil: JSON-array (t.ex. export från DevTools) eller Netscape cookies.txt
+ */
+export async function loadCookieFile(filePath: string): Promise<CookieParam[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    if (content.trimStart().startsWith('[')) {
+        return JSON.parse(content) as CookieParam[];
+    }
+    return parseNetscapeCookies(content);
+}
+
+/**
+ * Ersätter ${NAMN} med miljövariabler så att lösenord inte behöver checkas in
+ */
+export function expandEnv(value: string, env: NodeJS.ProcessEnv = process.env): string {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+        const resolved = env[name];
+        if (resolved === undefined) {
+            throw new Error(`Environment variable ${name} is not set`);
+        }
+        return resolved;
+    });
+}
+
+function expandRecord(record: Record<string, string> = {}): Record<string, string> {
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, expandEnv(value)]));
+}
+
+function cookieMatches(cookie: CookieParam, url: URL): boolean {
+    if (cookie.url) return new URL(cookie.url).hostname === url.hostname;
+    if (!cookie.domain) return false;
+
+    const domain = cookie.domain.replace(/^\./, '');
+    return url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+}
+
+async function runLoginStep(page: Page, step: LoginStep) {
+    const timeout = step.timeout ?? DEFAULT_LOGIN_TIMEOUT;
+    await page.goto(step.url, { waitUntil: 'domcontentloaded', timeout });
+
+    for (const [selector, value] of Object.entries(step.fields)) {
+        const field = await page.waitForSelector(selector, { timeout });
+        if (!field) throw new Error(`Login field '${selector}' not found`);
+        // Töm förifyllda värden innan vi skriver
+        await field.click({ count: 3 });
+        await field.type(expandEnv(value));
+    }
+
+    // Utan waitFor förväntar vi oss en navigering (klassisk formulär-post)
+    const navigation = step.waitFor
+        ? null
+        : page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout });
+
+    if (step.submit) {
+        await page.click(step.submit);
+    } else {
+        await page.keyboard.press('Enter');
+    }
+
+    if (navigation) await navigation;
+    if (step.waitFor) {
+        await page.waitForSelector(step.waitFor, { timeout }).catch(() => {
+            throw new Error(`Login did not complete: '${step.waitFor}' never appeared on ${page.url()}`);
+        });
+    }
+}
+
+/**
+ * Håller autentiseringen för en körning. Cookies och inloggning sätts i webbläsarens
+ * standardkontext en gång; headers och Basic Auth måste sättas per flik.
+ * Headers och Basic Auth skickas bara till målens origins (start-URL:en plus ev. fler scannade URL:er)
+ * – aldrig till tredjepartsresurser på sidorna.
+ */
+export class AuthSession {
+    private headers: Record<string, string>;
+    private basicAuth?: BasicAuthCredentials;
+    private cookies: CookieParam[] = [];
+    private origins: Set<string>;
+
+    constructor(private options: AuthOptions, private defaultUrl: string, targetUrls: string[] = [defaultUrl]) {
+        this.headers = expandRecord(options.headers);
+        this.basicAuth = options.basicAuth && {
+            username: expandEnv(options.basicAuth.username),
+            password: expandEnv(options.basicAuth.password)
+        };
+        this.origins = new Set([defaultUrl, ...targetUrls]
+            .map(url => new URL(url).origin)
+            .filter(origin => origin !== 'null'));
+    }
+
+    /**
+     * Origins som får headers och Basic Auth
+     */
+    get targetOrigins(): string[] {
+        return Array.from(this.origins);
+    }
+
+    get hasCredentials(): boolean {
+        return Object.keys(this.headers).length > 0 || Boolean(this.basicAuth);
+    }
+
+    get hasLogin(): boolean {
+        return Boolean(this.options.login);
+    }
+
+    /**
+     * Laddar cookies och kör inloggningen i en egen flik
+     */
+    async start(browser: Browser): Promise<void> {
+        const cookies = [
+            ...(this.options.cookieFile ? await loadCookieFile(this.options.cookieFile) : []),
+            ...(this.options.cookies ?? [])
+        ].map(cookie => (cookie.url || cookie.domain ? cookie : { ...cookie, url: this.defaultUrl }));
+
+        if (cookies.length === 0 && !this.options.login) return;
+
+        const page = await browser.newPage();
+        try {
+            await this.applyTo(page);
+            if (cookies.length > 0) {
+                await page.setCookie(...cookies);
+            }
+
+            const login = this.options.login;
+            if (typeof login === 'function') {
+                await login(page);
+            } else if (login) {
+                await runLoginStep(page, login);
+            }
+
+            // Sessionscookies från inloggningen behövs även för crawlerns fetch()
+            this.cookies = await browser.cookies();
+        } finally {
+            await page.close();
+        }
+    }
+
+    /**
+     * Egna headers plus Basic Auth, eller inga alls om URL:en inte hör till något av målens origins
+     */
+    private originHeaders(url: URL): Record<string, string> {
+        if (!this.origins.has(url.origin)) return {};
+
+        const headers = { ...this.headers };
+        if (this.basicAuth) {
+            const token = Buffer.from(`${this.basicAuth.username}:${this.basicAuth.password}`).toString('base64');
+            headers['Authorization'] = `Basic ${token}`;
+        }
+        return headers;
+    }
+
+    /**
+     * Headers och Basic Auth för en ny flik. setExtraHTTPHeaders och authenticate() gäller alla
+     * origins, så anropen till målens origins får dem via request interception i stället.
+     */
+    async applyTo(page: Page): Promise<void> {
+        if (!this.hasCredentials) return;
+
+        await page.setRequestInterception(true);
+        page.on('request', request => {
+            if (request.isInterceptResolutionHandled()) return;
+            // Andra handlers (t.ex. scanHtml) kan redan ha satt overrides – behåll dem
+            const overrides = request.continueRequestOverrides();
+            let url: URL;
+            try {
+                url = new URL(request.url());
+            } catch {
+                request.continue(overrides, 0);
+                return;
+            }
+            const headers = this.originHeaders(url);
+            request.continue(Object.keys(headers).length > 0
+                ? { ...overrides, headers: { ...request.headers(), ...overrides.headers, ...headers } }
+                : overrides, 0);
+        });
+    }
+
+    /**
+     * Headers för anrop utanför webbläsaren (robots.txt, sitemap.xml)
+     */
+    requestHeaders(url: string): Record<string, string> {
+        const target = new URL(url);
+        const headers = this.originHeaders(target);
+
+        const cookieHeader = this.cookies
+            .filter(cookie => cookieMatches(cookie, target))
+            .map(cookie => `${cookie.name}=${cookie.value}`)
+            .join('; ');
+        if (cookieHeader) headers['Cookie'] = cookieHeader;
+
+        return headers;
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * Baseline & Regression Diff
+ * Jämför ett nytt scanresultat med ett sparat resultat så att CI bara fallerar
+ * på nya brister – kända brister i äldre sajter blockerar inte bygget.
+ */
+
+import { promises as fs } from 'fs';
+import type { DiggRisk } from '@holmdigital/standards';
+import type { ScanResult } from './regulatory-scanner';
+import type { SiteScanResult } from './site-crawler';
+
+export type BaselineInput = ScanResult | SiteScanResult;
+
+export interface BaselineEntry {
+    /** Sidans URL – sätts bara för resultat med flera sidor */
+    url?: string;
+    /** Flödessteg (runFlow) – samma URL kan scannas i flera steg */
+    step?: string;
+    ruleId: string;
+    target: string;
+    diggRisk: DiggRisk;
+    wcagCriteria: string;
+    html?: string;
+}
+
+export interface BaselineDiff {
+    newViolations: BaselineEntry[];
+    fixedViolations: BaselineEntry[];
+    unchangedViolations: BaselineEntry[];
+    baselineScore: number;
+    currentScore: number;
+    scoreDelta: number;
+}
+
+export interface BaselineGateOptions {
+    /** Hur många poäng score får sjunka jämfört med baseline (default 0) */
+    maxScoreDrop?: number;
+}
+
+export interface BaselineGateResult {
+    passed: boolean;
+    reasons: string[];
+}
+
+function isSiteResult(result: BaselineInput): result is SiteScanResult {
+    return Array.isArray((result as SiteScanResult).pages);
+}
+
+/**
+ * Plattar ut ett resultat till en post per (regel, element).
+ * Regler utan element (t.ex. sidnivå) får tom target.
+ */
+function collectEntries(result: BaselineInput): BaselineEntry[] {
+    const pages = isSiteResult(result) ? result.pages : [result];
+    const includeUrl = isSiteResult(result);
+
+    return pages.flatMap(page => page.reports.flatMap(report => {
+        const base = {
+            url: includeUrl ? page.url : undefined,
+            step: page.step,
+            ruleId: report.ruleId,
+            diggRisk: report.holmdigitalInsight.diggRisk,
+            wcagCriteria: report.wcagCriteria
+        };
+
+        if (!report.failingNodes || report.failingNodes.length === 0) {
+            return [{ ...base, target: '' }];
+        }
+        return report.failingNodes.map(node => ({ ...base, target: node.target, html: node.html }));
+    }));
+}
+
+function entryKey(entry: BaselineEntry): string {
+    return [entry.url ?? '', entry.step ?? '', entry.ruleId, entry.target].join('::');
+}
+
+/**
+ * Matchar brister på regel + elementets selector och delar upp dem i nya, åtgärdade och oförändrade.
+ * Utan baseline (null) räknas alla brister som nya.
+ */
+export function compareWithBaseline(current: BaselineInput, baseline: BaselineInput | null): BaselineDiff {
+    // Samma regel kan träffa samma selector flera gånger – räkna förekomster
+    const remaining = new Map<string, BaselineEntry[]>();
+    for (const entry of baseline ? collectEntries(baseline) : []) {
+        const key = entryKey(entry);
+        remaining.set(key, [...(remaining.get(key) ?? []), entry]);
+    }
+
+    const newViolations: BaselineEntry[] = [];
+    const unchangedViolations: BaselineEntry[] = [];
+
+    for (const entry of collectEntries(current)) {
+        const matches = remaining.get(entryKey(entry));
+        if (matches && matches.length > 0) {
+            matches.shift();
+            unchangedViolations.push(entry);
+        } else {
+            newViolations.push(entry);
+        }
+    }
+
+    const fixedViolations = Array.from(remaining.values()).flat();
+
+    return {
+        newViolations,
+        fixedViolations,
+        unchangedViolations,
+        baselineScore: baseline?.score ?? current.score,
+        currentScore: current.score,
+        scoreDelta: baseline ? current.score - baseline.score : 0
+    };
+}
+
+/**
+ * CI-grind: fallerar bara på nya brister eller när score sjunker mer än tillåtet
+ */
+export function evaluateBaselineGate(diff: BaselineDiff, options: BaselineGateOptions = {}): BaselineGateResult {
+    const maxScoreDrop = options.maxScoreDrop ?? 0;
+    const reasons: string[] = [];
+
+    if (diff.newViolations.length > 0) {
+        reasons.push(`${diff.newViolations.length} new violation(s) compared to baseline`);
+    }
+    if (-diff.scoreDelta > maxScoreDrop) {
+        reasons.push(`Score dropped ${-diff.scoreDelta} points (allowed: ${maxScoreDrop})`);
+    }
+
+    return { passed: reasons.length === 0, reasons };
+}
+
+/**
+ * Läser en sparad baseline (JSON-output från en tidigare scan). Returnerar null om filen saknas.
+ */
+export async function loadBaseline(filePath: string): Promise<BaselineInput | null> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf-8')) as BaselineInput;
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw new Error(`Could not read baseline '${filePath}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+export async function saveBaseline(filePath: string, result: BaselineInput): Promise<void> {
+    await fs.writeFile(filePath, JSON.stringify(result, null, 2), 'utf-8');
+}
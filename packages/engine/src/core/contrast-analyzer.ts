@@ -0,0 +1,363 @@
+/**
+ * Contrast Analyzer
+ * Egen kontrastberäkning från computed styles, även i shadow roots och över halvgenomskinliga lager
+ * där axe bara svarar "incomplete". Bakgrundsbilder och gradienter mäts med pixlar från en skärmdump.
+ */
+
+import type { Page } from 'puppeteer';
+import type { EngineFinding } from './rule-engine';
+import type { FailingNode } from './regulatory-scanner';
+import { installPageHelpers } from './page-helpers';
+
+export type Rgba = [number, number, number, number];
+
+/**
+ * Det sidan rapporterar per element; kompositering och beräkning sker i Node
+ */
+interface ContrastCandidate {
+    kind: 'text' | 'control';
+    selector: string;
+    html: string;
+    foreground: Rgba;      // Textfärg (text) eller kantfärg (control, alfa 0 = ingen kant)
+    own?: Rgba;            // Kontrollens egen bakgrund
+    layers: Rgba[];        // Bakgrundslager bakom elementet, närmast först
+    opacity: number;       // Sammanlagd opacity för elementet och dess förfäder
+    needsPixels: boolean;  // Bakgrundsbild eller gradient i lagren
+    fontSize: number;
+    fontWeight: number;
+    reviewIndexes: number[]; // Index i axe:s incomplete-noder för color-contrast som pekar på elementet
+}
+
+export interface ContrastAnalysis {
+    findings: EngineFinding[];
+    /** axe:s incomplete-noder för color-contrast som analysen faktiskt har mätt */
+    decided: Set<any>;
+}
+
+const TEXT_RATIO = 4.5;
+const LARGE_TEXT_RATIO = 3;
+const NON_TEXT_RATIO = 3;
+const MAX_PIXEL_SAMPLES = 50;
+const WHITE: Rgba = [255, 255, 255, 1];
+
+/**
+ * Relativ luminans enligt WCAG 2.x
+ */
+export function relativeLuminance([r, g, b]: Rgba): number {
+    const channel = (value: number) => {
+        const c = value / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+export function contrastRatio(a: Rgba, b: Rgba): number {
+    const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Lägger en (ev. genomskinlig) färg ovanpå en ogenomskinlig
+ */
+export function composite(top: Rgba, bottom: Rgba): Rgba {
+    const alpha = top[3];
+    return [
+        Math.round(top[0] * alpha + bottom[0] * (1 - alpha)),
+        Math.round(top[1] * alpha + bottom[1] * (1 - alpha)),
+        Math.round(top[2] * alpha + bottom[2] * (1 - alpha)),
+        1
+    ];
+}
+
+/**
+ * Lager närmast först → effektiv bakgrund (sidan antas vara vit under allt)
+ */
+export function flattenLayers(layers: Rgba[]): Rgba {
+    return [...layers].reverse().reduce((bottom, layer) => composite(layer, bottom), WHITE);
+}
+
+/**
+ * Stor text: minst 24px, eller 18.66px (14pt) i fetstil
+ */
+export function requiredTextRatio(fontSize: number, fontWeight: number): number {
+    const large = fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+    return large ? LARGE_TEXT_RATIO : TEXT_RATIO;
+}
+
+function toHex([r, g, b]: Rgba): string {
+    return `#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function formatRatio(ratio: number): string {
+    return `${Math.floor(ratio * 100) / 100}:1`;
+}
+
+/**
+ * Samlar kandidater i sidan. Funktionen serialiseras till webbläsaren och får bara använda window.__hd.
+ */
+function collectCandidates(skipTargets: unknown[], reviewTargets: unknown[]): ContrastCandidate[] {
+    const { selectorFor, snippet, composedParent, composedElements, isVisible } = window.__hd;
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    const context = canvas.getContext('2d', { willReadFrequently: true })!;
+
+    function parseColor(value: string): [number, number, number, number] {
+        const match = value.match(/^rgba?\(([\d.]+),\s*([\d.]+),\s*([\d.]+)(?:,\s*([\d.]+))?\)$/);
+        if (match) {
+            return [Number(match[1]), Number(match[2]), Number(match[3]), match[4] === undefined ? 1 : Number(match[4])];
+        }
+        // oklch(), color() m.fl. – låt canvas konvertera till sRGB
+        context.clearRect(0, 0, 1, 1);
+        context.fillStyle = value;
+        context.fillRect(0, 0, 1, 1);
+        const [r, g, b, a] = context.getImageData(0, 0, 1, 1).data;
+        return [r, g, b, a / 255];
+    }
+
+    function resolveTarget(target: unknown): Element | null {
+        // axe: ["#id"] eller [["värd", "element i shadow root"]]
+        const parts = Array.isArray(target) ? target : [target];
+        let scope: Document | ShadowRoot = document;
+        let element: Element | null = null;
+        for (const part of parts) {
+            const selector = Array.isArray(part) ? part : [part];
+            for (const [index, step] of selector.entries()) {
+                element = scope.querySelector(String(step));
+                if (!element) return null;
+                if (index < selector.length - 1) {
+                    if (!element.shadowRoot) return null;
+                    scope = element.shadowRoot;
+                }
+            }
+        }
+        return element;
+    }
+
+    function backgroundLayers(start: Element | null): { layers: [number, number, number, number][]; needsPixels: boolean; opacity: number } {
+        const layers: [number, number, number, number][] = [];
+        let needsPixels = false;
+        let opacity = 1;
+        let opaque = false;
+        let current = start;
+
+        while (current) {
+            const style = getComputedStyle(current);
+            opacity *= Number(style.opacity);
+            // Lager bakom en ogenomskinlig bakgrund syns inte – men opacity ärvs ändå
+            if (!opaque) {
+                if (style.backgroundImage && style.backgroundImage !== 'none') {
+                    needsPixels = true;
+                }
+                const color = parseColor(style.backgroundColor);
+                if (color[3] > 0) {
+                    layers.push(color);
+                    opaque = color[3] >= 1;
+                }
+            }
+            current = composedParent(current);
+        }
+        return { layers, needsPixels, opacity };
+    }
+
+    const skip = new Set(skipTargets.map(resolveTarget).filter(Boolean));
+    const review = new Map<Element, number[]>();
+    reviewTargets.forEach((target, index) => {
+        const element = resolveTarget(target);
+        if (element) review.set(element, [...(review.get(element) ?? []), index]);
+    });
+    const candidates: ContrastCandidate[] = [];
+
+    for (const element of composedElements()) {
+        if (skip.has(element) || element.closest('[aria-hidden="true"], script, style, noscript, template')) continue;
+        if (!isVisible(element)) continue;
+
+        const style = getComputedStyle(element);
+
+        const tagName = element.tagName.toLowerCase();
+        const disabled = (element as HTMLInputElement).disabled || element.getAttribute('aria-disabled') === 'true';
+        // Inaktiva kontroller är undantagna från kontrastkraven
+        if (disabled) continue;
+
+        const hasText = Array.from(element.childNodes)
+            .some(child => child.nodeType === Node.TEXT_NODE && (child.textContent ?? '').trim() !== '');
+
+        if (hasText) {
+            const own = parseColor(style.backgroundColor);
+            const behind = backgroundLayers(composedParent(element));
+            const ownImage = style.backgroundImage !== 'none';
+            candidates.push({
+                kind: 'text',
+                selector: selectorFor(element),
+                html: snippet(element),
+                foreground: parseColor(style.color),
+                layers: own[3] > 0 ? [own, ...(own[3] >= 1 ? [] : behind.layers)] : behind.layers,
+                opacity: Number(style.opacity) * behind.opacity,
+                needsPixels: ownImage || (own[3] < 1 && behind.needsPixels),
+                fontSize: parseFloat(style.fontSize),
+                fontWeight: Number(style.fontWeight) || (style.fontWeight === 'bold' ? 700 : 400),
+                reviewIndexes: review.get(element) ?? []
+            });
+        }
+
+        const type = (element.getAttribute('type') ?? 'text').toLowerCase();
+        const isControl = tagName === 'select' || tagName === 'textarea' ||
+            (tagName === 'input' && !['hidden', 'checkbox', 'radio', 'range', 'color', 'file', 'image', 'submit', 'button', 'reset'].includes(type));
+
+        if (isControl) {
+            const behind = backgroundLayers(composedParent(element));
+            const hasBorder = parseFloat(style.borderBottomWidth) > 0 && style.borderBottomStyle !== 'none';
+            candidates.push({
+                kind: 'control',
+                selector: selectorFor(element),
+                html: snippet(element),
+                foreground: hasBorder ? parseColor(style.borderBottomColor) : [0, 0, 0, 0],
+                own: parseColor(style.backgroundColor),
+                layers: behind.layers,
+                opacity: Number(style.opacity) * behind.opacity,
+                needsPixels: behind.needsPixels,
+                fontSize: 0,
+                fontWeight: 0,
+                reviewIndexes: []
+            });
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Bakgrundens pixlar (texten görs genomskinlig under skärmdumpen); returnerar lägsta kontrasten
+ * mot textfärgen bland pixlarna, med de 5 % sämsta bortrensade för att tåla kantutjämning.
+ */
+async function sampleBackground(page: Page, selector: string, foreground: Rgba): Promise<number | null> {
+    const handle = await page.$(selector);
+    if (!handle) return null;
+
+    try {
+        const box = await handle.boundingBox();
+        if (!box || box.width < 1 || box.height < 1) return null;
+
+        await handle.evaluate(element => {
+            const style = (element as HTMLElement).style;
+            element.setAttribute('data-hd-contrast', style.cssText);
+            style.setProperty('color', 'transparent', 'important');
+            style.setProperty('text-shadow', 'none', 'important');
+        });
+
+        let screenshot: string;
+        try {
+            screenshot = await page.screenshot({ clip: box, encoding: 'base64', captureBeyondViewport: true });
+        } finally {
+            await handle.evaluate(element => {
+                (element as HTMLElement).style.cssText = element.getAttribute('data-hd-contrast') ?? '';
+                element.removeAttribute('data-hd-contrast');
+            });
+        }
+
+        const pixels: Rgba[] = await page.evaluate(async (data: string) => {
+            const image = new Image();
+            image.src = `data:image/png;base64,${data}`;
+            await image.decode();
+
+            const canvas = document.createElement('canvas');
+            canvas.width = image.width;
+            canvas.height = image.height;
+            const context = canvas.getContext('2d')!;
+            context.drawImage(image, 0, 0);
+            const { data: rgba } = context.getImageData(0, 0, image.width, image.height);
+
+            // Max ~2000 punkter räcker för en stabil uppskattning
+            const stride = Math.max(1, Math.floor((image.width * image.height) / 2000));
+            const samples: [number, number, number, number][] = [];
+            for (let i = 0; i < rgba.length / 4; i += stride) {
+                samples.push([rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2], 1]);
+            }
+            return samples;
+        }, screenshot);
+
+        if (pixels.length === 0) return null;
+        const ratios = pixels.map(pixel => contrastRatio(foreground, pixel)).sort((a, b) => a - b);
+        return ratios[Math.floor(ratios.length * 0.05)];
+    } finally {
+        await handle.dispose();
+    }
+}
+
+/**
+ * Kör kontrastanalysen i sidan. Element som axe redan har bedömt (violation eller pass) hoppas över.
+ * Returnerar också vilka av axe:s osäkra (incomplete) element analysen mätte – resten behöver granskas.
+ */
+export async function analyzeContrast(page: Page, axeResults: any): Promise<ContrastAnalysis> {
+    const mainDocumentNodes = (type: string) => ((axeResults[type] ?? []) as any[])
+        .filter(result => result.id === 'color-contrast')
+        .flatMap(result => result.nodes.filter((node: any) => !node.frame));
+    const judged = [...mainDocumentNodes('violations'), ...mainDocumentNodes('passes')].map(node => node.target);
+    const reviewNodes = mainDocumentNodes('incomplete');
+
+    await installPageHelpers(page);
+    const candidates = await page.evaluate(collectCandidates, judged, reviewNodes.map(node => node.target));
+    const text: FailingNode[] = [];
+    const nonText: FailingNode[] = [];
+    const decided = new Set<any>();
+    let sampled = 0;
+
+    for (const candidate of candidates) {
+        const background = flattenLayers(candidate.layers);
+
+        if (candidate.kind === 'text') {
+            // Osynlig text (t.ex. bildersättning) har ingen kontrast att mäta
+            if (candidate.foreground[3] * candidate.opacity === 0) continue;
+
+            const foreground = composite([...candidate.foreground.slice(0, 3), candidate.foreground[3] * candidate.opacity] as Rgba, background);
+            const required = requiredTextRatio(candidate.fontSize, candidate.fontWeight);
+            let ratio = contrastRatio(foreground, background);
+            let source = `background ${toHex(background)}`;
+            let measured = !candidate.needsPixels;
+
+            if (candidate.needsPixels && sampled < MAX_PIXEL_SAMPLES) {
+                sampled++;
+                const pixelRatio = await sampleBackground(page, candidate.selector, foreground);
+                if (pixelRatio !== null) {
+                    ratio = pixelRatio;
+                    source = 'background image';
+                    measured = true;
+                }
+            } else if (candidate.needsPixels) {
+                continue; // Gradient/bild utan mätning – hellre inget fynd än ett felaktigt
+            }
+            // Bara element där bakgrunden faktiskt mättes räknas som avgjorda
+            if (measured) candidate.reviewIndexes.forEach(index => decided.add(reviewNodes[index]));
+
+            if (ratio < required) {
+                text.push({
+                    html: candidate.html,
+                    target: candidate.selector,
+                    failureSummary: `Text contrast ${formatRatio(ratio)} is below ${required}:1 (foreground ${toHex(foreground)}, ${source})`
+                });
+            }
+            continue;
+        }
+
+        if (candidate.needsPixels) continue;
+        const own = composite(candidate.own!, background);
+        const border = candidate.foreground[3] > 0 ? composite(candidate.foreground, background) : null;
+        const ratio = Math.max(
+            contrastRatio(own, background),
+            border ? contrastRatio(border, background) : 1
+        );
+
+        if (ratio < NON_TEXT_RATIO) {
+            nonText.push({
+                html: candidate.html,
+                target: candidate.selector,
+                failureSummary: `Input boundary contrast ${formatRatio(ratio)} is below ${NON_TEXT_RATIO}:1 against ${toHex(background)}` +
+                    (border ? ` (border ${toHex(border)})` : ' (no visible border)')
+            });
+        }
+    }
+
+    const findings: EngineFinding[] = [];
+    if (text.length > 0) findings.push({ engineRuleId: 'hd-contrast', ruleId: 'color-contrast', nodes: text });
+    if (nonText.length > 0) findings.push({ engineRuleId: 'hd-non-text-contrast', ruleId: 'non-text-contrast', nodes: nonText });
+    return { findings, decided };
+}
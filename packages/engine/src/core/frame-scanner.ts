@@ -0,0 +1,128 @@
+/**
+ * Frame Scanner
+ * Kör axe i sidans iframes, en i taget och med egen timeout, så att en trasig annonsram
+ * inte fäller hela scanningen. Fynden märks med ramens URL.
+ */
+
+import type { Frame, Page } from 'puppeteer';
+
+export interface FrameScanOptions {
+    allow?: Array<string | RegExp>; // Origins som scannas (glob med *, t.ex. "https://*.stripe.com"); tom = alla
+    deny?: Array<string | RegExp>;  // Origins som aldrig scannas (går före allow)
+    timeout?: number;               // Max tid per ram i ms (default 10000)
+    maxFrames?: number;             // Max antal ramar per sida (default 20)
+}
+
+export interface FrameScanSummary {
+    scanned: string[];
+    skipped: string[];
+    failed: Array<{ url: string; error: string }>;
+}
+
+const DEFAULT_FRAME_TIMEOUT = 10000;
+const DEFAULT_MAX_FRAMES = 20;
+
+function matchesOrigin(origin: string, pattern: string | RegExp): boolean {
+    if (pattern instanceof RegExp) return pattern.test(origin);
+
+    // Mönster kan anges som hel URL – bara origin jämförs
+    let expected = pattern.replace(/\/+$/, '');
+    const scheme = expected.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i);
+    if (scheme) expected = scheme[0];
+    const source = expected
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}$`, 'i').test(origin);
+}
+
+/**
+ * Får ramen scannas? about:srcdoc och about:blank ärver förälderns origin.
+ */
+export function isFrameAllowed(frameUrl: string, pageUrl: string, options: FrameScanOptions): boolean {
+    let origin: string;
+    try {
+        origin = frameUrl.startsWith('about:') ? new URL(pageUrl).origin : new URL(frameUrl).origin;
+    } catch {
+        return false;
+    }
+    if (options.deny?.some(pattern => matchesOrigin(origin, pattern))) return false;
+    if (!options.allow || options.allow.length === 0) return true;
+    return options.allow.some(pattern => matchesOrigin(origin, pattern));
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * axe-resultaten från en ram – samma fält som från huvuddokumentet
+ */
+export interface FrameAxeResults {
+    violations?: any[];
+    incomplete?: any[];
+    passes?: any[];
+}
+
+const withFrame = (results: any[] = [], url: string) => results.map(result => ({
+    ...result,
+    nodes: result.nodes.map((node: any) => ({ ...node, frame: url }))
+}));
+
+/**
+ * Kör scanFrame i varje tillåten ram och returnerar axe-resultaten där varje nod har fått `frame`.
+ * Fel och timeouts i en ram loggas i sammanfattningen och hoppas över.
+ */
+export async function scanFrames(
+    page: Page,
+    options: FrameScanOptions,
+    scanFrame: (frame: Frame) => Promise<FrameAxeResults>
+): Promise<Required<FrameAxeResults> & { summary: FrameScanSummary }> {
+    const summary: FrameScanSummary = { scanned: [], skipped: [], failed: [] };
+    const violations: any[] = [];
+    const incomplete: any[] = [];
+    const passes: any[] = [];
+    const timeout = options.timeout ?? DEFAULT_FRAME_TIMEOUT;
+    const maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES;
+
+    const frames = page.frames().filter(frame => frame !== page.mainFrame() && !frame.detached);
+    for (const frame of frames) {
+        const url = frame.url();
+        if (!url || url === 'about:blank' || !isFrameAllowed(url, page.url(), options) || summary.scanned.length >= maxFrames) {
+            summary.skipped.push(url || 'about:blank');
+            continue;
+        }
+
+        try {
+            const results = await withTimeout(scanFrame(frame), timeout, `Frame ${url}`);
+            violations.push(...withFrame(results.violations, url));
+            incomplete.push(...withFrame(results.incomplete, url));
+            passes.push(...withFrame(results.passes, url));
+            summary.scanned.push(url);
+        } catch (error) {
+            summary.failed.push({ url, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return { violations, incomplete, passes, summary };
+}
+
+/**
+ * Lägger ramarnas resultat (violations, incomplete eller passes) i huvuddokumentets – samma regel slås ihop till en
+ */
+export function mergeFrameViolations(main: any[], frames: any[]): any[] {
+    const merged = main.map(violation => ({ ...violation }));
+    for (const violation of frames) {
+        const existing = merged.find(candidate => candidate.id === violation.id);
+        if (existing) {
+            existing.nodes = [...existing.nodes, ...violation.nodes];
+        } else {
+            merged.push(violation);
+        }
+    }
+    return merged;
+}
@@ -0,0 +1,342 @@
+/**
+ * Keyboard Traversal
+ * Tabbar igenom sidan som en tangentbordsanvändare och registrerar fokusordningen.
+ * Ger fynd för nåbarhet, fällor, fokusordning mot visuell ordning och synlig fokusmarkering.
+ */
+
+import type { Page } from 'puppeteer';
+import type { EngineFinding } from './rule-engine';
+import type { FailingNode } from './regulatory-scanner';
+import { installPageHelpers, PageRect } from './page-helpers';
+
+/**
+ * Ett element som fick fokus, i den ordning Tab nådde det
+ */
+export interface FocusStop {
+    index: number;
+    selector: string;
+    html: string;
+    rect: PageRect;          // Dokumentkoordinater när elementet hade fokus
+    focusIndicator: 'style' | 'pixels' | 'none' | 'unknown';
+}
+
+export interface KeyboardAnalysisOptions {
+    maxStops?: number;       // Max antal Tab-tryck (default 200)
+}
+
+export interface KeyboardAnalysis {
+    focusOrder: FocusStop[];
+    findings: EngineFinding[];
+}
+
+/**
+ * Det sidan rapporterar om det fokuserade elementet
+ */
+interface FocusState {
+    visitedIndex: number;    // Index i window.__hdKeyboard.visited, -1 = nytt element
+    selector: string;
+    html: string;
+    rect: PageRect;
+    fixed: boolean;          // position: fixed/sticky – dokumentkoordinater säger inget om visuell ordning
+    frame: boolean;          // Fokus ligger i en iframe; Tab rör sig inuti den
+    styleChanged: boolean | null; // null = ingen ofokuserad referens (elementet skapades under traverseringen)
+}
+
+interface CandidateInfo {
+    selector: string;
+    html: string;
+    radioGroup?: string;
+}
+
+declare global {
+    interface Window {
+        __hdKeyboard?: {
+            unfocused: WeakMap<Element, string>;
+            visited: Element[];
+            indicatorStyles(element: Element): string;
+            blurred?: HTMLElement;  // Elementet som ska få tillbaka fokus efter skärmdumpen
+        };
+    }
+}
+
+const DEFAULT_MAX_STOPS = 200;
+const MAX_PIXEL_COMPARISONS = 30;
+const INDICATOR_PADDING = 8;
+
+// Roller som kräver att elementet går att nå med Tab
+const WIDGET_ROLES = [
+    'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+    'menuitemradio', 'option', 'slider', 'spinbutton', 'combobox', 'textbox', 'searchbox', 'treeitem'
+];
+
+/**
+ * Förbereder traverseringen: nollställer fokus, sparar ofokuserade stilar och listar element som borde nås.
+ * Serialiseras till webbläsaren och får bara använda window.__hd.
+ */
+function prepareTraversal(widgetRoles: string[]): { tabbable: CandidateInfo[]; widgets: CandidateInfo[] } {
+    const { selectorFor, snippet, composedElements, deepActiveElement, isVisible } = window.__hd;
+
+    (deepActiveElement() as HTMLElement | null)?.blur?.();
+    window.scrollTo(0, 0);
+
+    function indicatorStyles(element: Element): string {
+        const style = getComputedStyle(element);
+        const outline = style.outlineStyle !== 'none' && parseFloat(style.outlineWidth) > 0
+            ? `${style.outlineStyle} ${style.outlineWidth} ${style.outlineColor} ${style.outlineOffset}`
+            : 'none';
+        return [
+            outline,
+            style.boxShadow,
+            style.borderTopColor, style.borderRightColor, style.borderBottomColor, style.borderLeftColor,
+            style.borderTopWidth, style.borderBottomWidth,
+            style.backgroundColor,
+            style.color,
+            style.textDecorationLine
+        ].join('|');
+    }
+
+    const unfocused = new WeakMap<Element, string>();
+    const tabbable: CandidateInfo[] = [];
+    const widgets: CandidateInfo[] = [];
+
+    for (const element of composedElements()) {
+        if (!(element instanceof HTMLElement) || element.closest('[inert], [aria-hidden="true"]')) continue;
+        if (!isVisible(element)) continue;
+
+        unfocused.set(element, indicatorStyles(element));
+        const disabled = (element as HTMLButtonElement).disabled === true;
+
+        // Värdar som delegerar fokus får det aldrig själva – det hamnar i shadow root
+        if (element.tabIndex >= 0 && !disabled && !element.shadowRoot?.delegatesFocus) {
+            const radio = element instanceof HTMLInputElement && element.type === 'radio' && element.name
+                ? `${element.form?.id ?? ''}#${element.name}`
+                : undefined;
+            tabbable.push({ selector: selectorFor(element), html: snippet(element), radioGroup: radio });
+            continue;
+        }
+
+        const role = element.getAttribute('role');
+        if (role && widgetRoles.includes(role) && !element.hasAttribute('tabindex') &&
+            element.getAttribute('aria-disabled') !== 'true' && !element.shadowRoot?.delegatesFocus) {
+            widgets.push({ selector: selectorFor(element), html: snippet(element) });
+        }
+    }
+
+    window.__hdKeyboard = { unfocused, visited: [], indicatorStyles };
+    return { tabbable, widgets };
+}
+
+/**
+ * Läser det fokuserade elementet efter ett Tab-tryck; null när fokus är tillbaka på dokumentet
+ */
+function readFocus(): FocusState | null {
+    const { selectorFor, snippet, composedParent, deepActiveElement, documentRect } = window.__hd;
+    const state = window.__hdKeyboard!;
+
+    const element = deepActiveElement();
+    if (!element || element === document.body || element === document.documentElement) return null;
+
+    // Avsluta övergångar så att stilen jämförs i sitt slutläge
+    element.getAnimations?.().forEach(animation => animation.finish());
+
+    let fixed = false;
+    for (let current: Element | null = element; current; current = composedParent(current)) {
+        const position = getComputedStyle(current).position;
+        if (position === 'fixed' || position === 'sticky') {
+            fixed = true;
+            break;
+        }
+    }
+
+    const before = state.unfocused.get(element);
+    const visitedIndex = state.visited.indexOf(element);
+    if (visitedIndex === -1) state.visited.push(element);
+
+    return {
+        visitedIndex,
+        selector: selectorFor(element),
+        html: snippet(element),
+        rect: documentRect(element),
+        fixed,
+        frame: element.tagName === 'IFRAME' || element.tagName === 'FRAME',
+        styleChanged: before === undefined ? null : before !== state.indicatorStyles(element)
+    };
+}
+
+/**
+ * Jämför en skärmdump av elementet med och utan fokus. Fokus återställs efteråt
+ * så att nästa Tab fortsätter från samma ställe.
+ */
+async function pixelsChangeOnFocus(page: Page, rect: PageRect): Promise<boolean | null> {
+    const x = Math.max(0, rect.x - INDICATOR_PADDING);
+    const y = Math.max(0, rect.y - INDICATOR_PADDING);
+    const clip = {
+        x,
+        y,
+        width: rect.x + rect.width + INDICATOR_PADDING - x,
+        height: rect.y + rect.height + INDICATOR_PADDING - y
+    };
+    if (clip.width < 1 || clip.height < 1) return null;
+
+    const focused = await page.screenshot({ clip, encoding: 'binary' });
+    const blurred = await page.evaluate(() => {
+        const element = window.__hd.deepActiveElement() as HTMLElement | null;
+        if (!element) return false;
+        window.__hdKeyboard!.blurred = element;
+        element.blur();
+        element.getAnimations?.().forEach(animation => animation.finish());
+        return true;
+    });
+    if (!blurred) return null;
+
+    try {
+        const unfocused = await page.screenshot({ clip, encoding: 'binary' });
+        return !Buffer.from(focused).equals(Buffer.from(unfocused));
+    } finally {
+        await page.evaluate(() => {
+            const state = window.__hdKeyboard!;
+            state.blurred?.focus({ preventScroll: true });
+            state.blurred = undefined;
+        });
+    }
+}
+
+/**
+ * Fokus hoppar bakåt visuellt: nästa element ligger helt ovanför (utan att vara en ny kolumn
+ * till höger) eller helt före på samma rad
+ */
+function movesBackward(previous: PageRect, next: PageRect, rtl: boolean): boolean {
+    const sameRow = next.y < previous.y + previous.height && previous.y < next.y + next.height;
+    if (sameRow) {
+        return rtl ? next.x >= previous.x + previous.width : next.x + next.width <= previous.x;
+    }
+    const above = next.y + next.height <= previous.y;
+    const newColumn = rtl ? next.x + next.width <= previous.x : next.x >= previous.x + previous.width;
+    return above && !newColumn;
+}
+
+/**
+ * Tabbar igenom sidan. Ändrar fokus och kan öppna menyer, så den ska köras sist.
+ */
+export async function analyzeKeyboard(page: Page, options: KeyboardAnalysisOptions = {}): Promise<KeyboardAnalysis> {
+    const maxStops = options.maxStops ?? DEFAULT_MAX_STOPS;
+
+    await installPageHelpers(page);
+    const { tabbable, widgets } = await page.evaluate(prepareTraversal, WIDGET_ROLES);
+    const rtl = await page.evaluate(() => getComputedStyle(document.documentElement).direction === 'rtl');
+
+    const focusOrder: FocusStop[] = [];
+    const fixedStops = new Set<number>();
+    const indicatorFailures: FailingNode[] = [];
+    const trapNodes: FailingNode[] = [];
+    let completed = false;
+    let pixelComparisons = 0;
+
+    for (let presses = 0; presses < maxStops; presses++) {
+        await page.keyboard.press('Tab');
+        let state = await page.evaluate(readFocus);
+
+        if (state && state.visitedIndex !== -1) {
+            const last = focusOrder[focusOrder.length - 1];
+            // Tab inuti en iframe – det yttre dokumentet ser samma element
+            if (state.frame && state.visitedIndex === last?.index) continue;
+            // Tillbaka till första stoppet: fokusordningen har gått varvet runt
+            if (state.visitedIndex === 0) {
+                completed = true;
+                break;
+            }
+
+            // En cykel som inte når början – ge Escape en chans (t.ex. en modal som stängs)
+            const cycle = focusOrder.slice(state.visitedIndex);
+            await page.keyboard.press('Escape');
+            await page.keyboard.press('Tab');
+            state = await page.evaluate(readFocus);
+            const stuck = state !== null && state.visitedIndex >= cycle[0].index;
+            if (stuck) {
+                const path = cycle.map(stop => stop.selector).join(' → ');
+                trapNodes.push(...cycle.map(stop => ({
+                    html: stop.html,
+                    target: stop.selector,
+                    failureSummary: `Keyboard focus is trapped in a cycle of ${cycle.length} element(s) that Tab and Escape cannot leave: ${path}`
+                })));
+                break;
+            }
+            if (state && state.visitedIndex !== -1) continue;
+        }
+
+        if (!state) {
+            completed = true;
+            break;
+        }
+
+        let focusIndicator: FocusStop['focusIndicator'] = 'unknown';
+        if (state.styleChanged) {
+            focusIndicator = 'style';
+        } else if (pixelComparisons < MAX_PIXEL_COMPARISONS) {
+            // Indikatorn kan sitta i ett pseudo-element eller på en förälder (:focus-within)
+            pixelComparisons++;
+            const changed = await pixelsChangeOnFocus(page, state.rect);
+            if (changed !== null) focusIndicator = changed ? 'pixels' : 'none';
+        }
+
+        const stop: FocusStop = {
+            index: focusOrder.length,
+            selector: state.selector,
+            html: state.html,
+            rect: state.rect,
+            focusIndicator
+        };
+        focusOrder.push(stop);
+        if (state.fixed) fixedStops.add(stop.index);
+
+        if (focusIndicator === 'none') {
+            indicatorFailures.push({
+                html: stop.html,
+                target: stop.selector,
+                failureSummary: `No visible focus indicator: neither styles nor pixels change when the element receives keyboard focus (stop ${stop.index + 1})`
+            });
+        }
+    }
+
+    const orderFailures: FailingNode[] = [];
+    for (let i = 1; i < focusOrder.length; i++) {
+        if (fixedStops.has(i) || fixedStops.has(i - 1)) continue;
+        const [previous, next] = [focusOrder[i - 1], focusOrder[i]];
+        if (movesBackward(previous.rect, next.rect, rtl)) {
+            orderFailures.push({
+                html: next.html,
+                target: next.selector,
+                failureSummary: `Focus moves from ${previous.selector} (stop ${i}) back to an element placed visually before it (stop ${i + 1}); DOM order and visual order disagree`
+            });
+        }
+    }
+
+    const accessFailures: FailingNode[] = widgets.map(widget => ({
+        html: widget.html,
+        target: widget.selector,
+        failureSummary: 'Element has an interactive role but is not focusable (missing tabindex)'
+    }));
+
+    // Utan fullständig traversering (fälla eller maxStops) går det inte att säga vad som aldrig nås
+    if (completed) {
+        const reached = new Set(focusOrder.map(stop => stop.selector));
+        const reachedGroups = new Set(tabbable.filter(item => item.radioGroup && reached.has(item.selector)).map(item => item.radioGroup));
+        for (const item of tabbable) {
+            if (reached.has(item.selector)) continue;
+            // Bara en radioknapp per grupp ligger i tabbordningen
+            if (item.radioGroup && reachedGroups.has(item.radioGroup)) continue;
+            accessFailures.push({
+                html: item.html,
+                target: item.selector,
+                failureSummary: 'Focusable element is never reached with the Tab key'
+            });
+        }
+    }
+
+    const findings: EngineFinding[] = [];
+    if (accessFailures.length > 0) findings.push({ engineRuleId: 'hd-keyboard-access', ruleId: 'keyboard-accessible', nodes: accessFailures });
+    if (trapNodes.length > 0) findings.push({ engineRuleId: 'hd-keyboard-trap', ruleId: 'no-keyboard-trap', nodes: trapNodes });
+    if (orderFailures.length > 0) findings.push({ engineRuleId: 'hd-focus-order', ruleId: 'focus-order', nodes: orderFailures });
+    if (indicatorFailures.length > 0) findings.push({ engineRuleId: 'hd-focus-visible', ruleId: 'focus-visible', nodes: indicatorFailures });
+    return { focusOrder, findings };
+}
@@ -0,0 +1,190 @@
+/**
+ * Layout Probe
+ * Mäter sidans layout i ett givet läge (smal viewport, textzoom, ändrade avstånd):
+ * horisontell scroll, text som svämmar över eller klipps av, och text som överlappar annan text.
+ */
+
+import type { Page } from 'puppeteer';
+import type { FailingNode } from './regulatory-scanner';
+import { installPageHelpers } from './page-helpers';
+
+export interface LayoutIssue {
+    kind: 'horizontal-scroll' | 'clipped' | 'overflow' | 'overlap';
+    selector: string;
+    html: string;
+    detail: string;
+    key: string;             // Identifierar samma problem mellan två mätningar
+}
+
+// Innehåll som får kräva scroll i två dimensioner (WCAG 1.4.10, undantaget för tvådimensionell layout)
+const REFLOW_EXEMPT = 'table, pre, img, picture, video, canvas, svg, iframe, object, embed, math, ' +
+    '[role="grid"], [role="treegrid"], [role="application"], [role="toolbar"], [role="img"]';
+const MAX_TEXT_ELEMENTS = 1500;
+const MAX_ISSUES_PER_KIND = 25;
+
+/**
+ * Serialiseras till webbläsaren och får bara använda window.__hd
+ */
+function collectLayoutIssues(exempt: string, maxTextElements: number, maxIssues: number): LayoutIssue[] {
+    const { selectorFor, snippet, composedParent, composedElements, isVisible } = window.__hd;
+    const issues: LayoutIssue[] = [];
+    const elements = composedElements().filter(element =>
+        !element.closest('script, style, noscript, template, [aria-hidden="true"]') && isVisible(element));
+
+    // Horisontell scroll: de yttersta element som sticker ut och inte är undantagna eller ligger i en egen scrollcontainer
+    const scrolling = document.documentElement.scrollWidth > window.innerWidth + 1;
+    if (scrolling) {
+        const rtl = getComputedStyle(document.documentElement).direction === 'rtl';
+        const reported: Element[] = [];
+
+        const contained = (element: Element) => {
+            for (let current = composedParent(element); current && current !== document.body; current = composedParent(current)) {
+                if (current === document.documentElement) break;
+                if (reported.includes(current)) return true;
+                const overflowX = getComputedStyle(current).overflowX;
+                if (overflowX !== 'visible') return true;
+            }
+            return false;
+        };
+
+        for (const element of elements) {
+            if (reported.length >= maxIssues) break;
+            if (element === document.body || element === document.documentElement || element.closest(exempt)) continue;
+
+            const rect = element.getBoundingClientRect();
+            const outside = rtl ? -rect.left : rect.right - window.innerWidth;
+            if (outside <= 1 || contained(element)) continue;
+
+            reported.push(element);
+            const selector = selectorFor(element);
+            issues.push({
+                kind: 'horizontal-scroll',
+                selector,
+                html: snippet(element),
+                detail: `Element is ${Math.round(rect.width)}px wide and extends ${Math.round(outside)}px beyond the ${window.innerWidth}px viewport, causing horizontal scrolling`,
+                key: `horizontal-scroll::${selector}`
+            });
+        }
+    }
+
+    const textElements = elements.filter(element => Array.from(element.childNodes)
+        .some(child => child.nodeType === Node.TEXT_NODE && (child.textContent ?? '').trim() !== ''));
+
+    // Avklippt text: innehållet är större än en container som döljer överflödet.
+    // Överflöd: text som rinner ut ur en container med fast storlek (yttersta containern räcker).
+    let clipped = 0;
+    const overflowing: Element[] = [];
+    for (const element of elements) {
+        if (element === document.body || element === document.documentElement) continue;
+        if (!(element.textContent ?? '').trim()) continue;
+        const style = getComputedStyle(element);
+        const hidesX = style.overflowX === 'hidden' || style.overflowX === 'clip';
+        const hidesY = style.overflowY === 'hidden' || style.overflowY === 'clip';
+
+        if (style.overflowX === 'visible' && style.overflowY === 'visible') {
+            if (overflowing.length >= maxIssues || element.clientHeight === 0) continue;
+            if (overflowing.some(ancestor => ancestor.contains(element))) continue;
+            const spill = element.scrollHeight - element.clientHeight;
+            if (spill <= 1) continue;
+
+            overflowing.push(element);
+            const selector = selectorFor(element);
+            issues.push({
+                kind: 'overflow',
+                selector,
+                html: snippet(element),
+                detail: `Text overflows its ${element.clientHeight}px high container by ${spill}px`,
+                key: `overflow::${selector}`
+            });
+            continue;
+        }
+        if ((!hidesX && !hidesY) || clipped >= maxIssues) continue;
+
+        const overflowX = hidesX ? element.scrollWidth - element.clientWidth : 0;
+        const overflowY = hidesY ? element.scrollHeight - element.clientHeight : 0;
+        if (overflowX <= 1 && overflowY <= 1) continue;
+
+        clipped++;
+        const selector = selectorFor(element);
+        const axis = overflowX > 1 && overflowY > 1 ? 'horizontally and vertically' : overflowX > 1 ? 'horizontally' : 'vertically';
+        issues.push({
+            kind: 'clipped',
+            selector,
+            html: snippet(element),
+            detail: `Text is clipped ${axis} by overflow: ${style.overflow} (${Math.max(overflowX, overflowY)}px hidden)`,
+            key: `clipped::${selector}`
+        });
+    }
+
+    // Överlappande text: jämför textens egna rektanglar, sorterade uppifrån och ned
+    const range = document.createRange();
+    const boxes = textElements.slice(0, maxTextElements).map(element => {
+        range.selectNodeContents(element);
+        return { element, rect: range.getBoundingClientRect() };
+    }).filter(box => box.rect.width > 0 && box.rect.height > 0)
+        .sort((a, b) => a.rect.top - b.rect.top);
+
+    let overlaps = 0;
+    const overlapping = new Set<Element>();
+    for (let i = 0; i < boxes.length && overlaps < maxIssues; i++) {
+        const a = boxes[i];
+        for (let j = i + 1; j < boxes.length && boxes[j].rect.top < a.rect.bottom; j++) {
+            const b = boxes[j];
+            if (overlapping.has(b.element) || a.element.contains(b.element) || b.element.contains(a.element)) continue;
+
+            const width = Math.min(a.rect.right, b.rect.right) - Math.max(a.rect.left, b.rect.left);
+            const height = Math.min(a.rect.bottom, b.rect.bottom) - Math.max(a.rect.top, b.rect.top);
+            if (width <= 0 || height <= 0) continue;
+            // Kantutjämning och negativa marginaler ger små överlapp – kräv en femtedel av den mindre ytan
+            const smaller = Math.min(a.rect.width * a.rect.height, b.rect.width * b.rect.height);
+            if (width * height < smaller * 0.2) continue;
+
+            overlaps++;
+            overlapping.add(b.element);
+            const [selectorA, selectorB] = [selectorFor(a.element), selectorFor(b.element)];
+            issues.push({
+                kind: 'overlap',
+                selector: selectorB,
+                html: snippet(b.element),
+                detail: `Text overlaps the text of ${selectorA} (${Math.round(width)}x${Math.round(height)}px)`,
+                key: `overlap::${selectorA}::${selectorB}`
+            });
+            break;
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Mäter layouten i sidans nuvarande läge
+ */
+export async function probeLayout(page: Page): Promise<LayoutIssue[]> {
+    await installPageHelpers(page);
+    return page.evaluate(collectLayoutIssues, REFLOW_EXEMPT, MAX_TEXT_ELEMENTS, MAX_ISSUES_PER_KIND);
+}
+
+/**
+ * Väntar tills sidan har ritats om efter en ändring (inkl. debouncade resize-lyssnare)
+ */
+export async function settleLayout(page: Page): Promise<void> {
+    await page.evaluate(() => new Promise<void>(resolve => {
+        setTimeout(() => requestAnimationFrame(() => requestAnimationFrame(() => resolve())), 300);
+    }));
+}
+
+/**
+ * Problem som inte fanns i referensmätningen – de har orsakats av ändringen
+ */
+export function newLayoutIssues(baseline: LayoutIssue[], current: LayoutIssue[]): LayoutIssue[] {
+    const known = new Set(baseline.map(issue => issue.key));
+    return current.filter(issue => !known.has(issue.key));
+}
+
+export function toFailingNodes(issues: LayoutIssue[], context: string): FailingNode[] {
+    return issues.map(issue => ({
+        html: issue.html,
+        target: issue.selector,
+        failureSummary: `${context}: ${issue.detail}`
+    }));
+}
@@ -0,0 +1,223 @@
+/**
+ * Manual Audit
+ * Manuell granskning som sparas i en JSON-fil och kan återupptas mellan sessioner.
+ * Utfallen slås ihop med automatiska scanresultat till en samlad bedömning.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+    getAllConvergenceRules,
+    getICTManualChecklist,
+    generateRegulatoryReport,
+    ICTManualCheck
+} from '@holmdigital/standards';
+import type { ScanResult } from './regulatory-scanner';
+import type { SiteScanResult } from './site-crawler';
+import { getStandardProfile, ComplianceStandard } from './standard-profiles';
+import { ManualCheckResult, MANUAL_CHECK_STATUSES } from './manual-results';
+import { PseudoAutomationEngine } from '../automation/pseudo-automation';
+
+export const DEFAULT_AUDIT_FILE = 'hd-a11y-audit.json';
+
+/**
+ * Granskningsfilen. `results` har samma format som --manual-results, så filen kan användas direkt där.
+ */
+export interface AuditFile {
+    version: 1;
+    url?: string;                 // Produkten som granskas
+    standard: ComplianceStandard;
+    categories: string[];         // Produktkategorier för IKT-kontrollerna
+    scans: string[];              // Sökvägar till JSON-output från scannern, relativt filen
+    results: ManualCheckResult[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Ett krav som testaren ska gå igenom
+ */
+export interface AuditItem {
+    id: string;
+    kind: 'rule' | 'ict';
+    title: string;
+    wcagCriteria?: string;
+    en301549Criteria: string;
+    pseudoAutomation: boolean;
+    checklist: string;            // Instruktioner i Markdown
+}
+
+export type AuditStatus = 'PASS' | 'FAIL' | 'INCOMPLETE';
+
+export interface AuditVerdict {
+    status: AuditStatus;
+    automated: {
+        pages: number;
+        failedRules: string[];
+    };
+    manual: {
+        passed: string[];
+        failed: string[];
+        notApplicable: string[];
+        pending: string[];
+    };
+}
+
+export function createAuditFile(options: { url?: string; standard?: ComplianceStandard; categories?: string[] } = {}): AuditFile {
+    const now = new Date().toISOString();
+    return {
+        version: 1,
+        url: options.url,
+        standard: options.standard ?? 'dos-lagen',
+        categories: options.categories ?? [],
+        scans: [],
+        results: [],
+        createdAt: now,
+        updatedAt: now
+    };
+}
+
+/**
+ * Läser en granskningsfil. Returnerar null om filen saknas.
+ */
+export async function loadAuditFile(filePath: string): Promise<AuditFile | null> {
+    let data: any;
+    try {
+        data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw new Error(`Could not read audit file '${filePath}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (data?.version !== 1 || !Array.isArray(data.results)) {
+        throw new Error(`'${filePath}' is not an audit file (expected "version": 1 and a "results" array)`);
+    }
+    for (const result of data.results) {
+        if (typeof result?.id !== 'string' || !MANUAL_CHECK_STATUSES.includes(result?.status)) {
+            throw new Error(`Invalid result in '${filePath}': ${JSON.stringify(result)}`);
+        }
+    }
+    return { ...createAuditFile(), ...data, scans: data.scans ?? [], categories: data.categories ?? [] };
+}
+
+export async function saveAuditFile(filePath: string, audit: AuditFile): Promise<AuditFile> {
+    const saved = { ...audit, updatedAt: new Date().toISOString() };
+    await fs.writeFile(filePath, JSON.stringify(saved, null, 2), 'utf-8');
+    return saved;
+}
+
+/**
+ * Sparar ett utfall – ett tidigare utfall för samma krav ersätts
+ */
+export function recordAuditResult(audit: AuditFile, result: ManualCheckResult): AuditFile {
+    return {
+        ...audit,
+        results: [...audit.results.filter(existing => existing.id !== result.id), result]
+    };
+}
+
+function ictChecklistApplies(check: ICTManualCheck, categories: string[]): boolean {
+    return check.applicableFor.includes('all') || check.applicableFor.some(category => categories.includes(category));
+}
+
+/**
+ * Kraven som måste granskas manuellt: regler i standarden som inte kan avgöras automatiskt
+ * eller har pseudo-automation, automatiska regler där scanningarna har element som behöver
+ * granskas (axe incomplete), plus IKT-kontrollerna för produktkategorierna
+ */
+export function getAuditItems(standard: ComplianceStandard, categories: string[], lang: string = 'en', scans: ScanResult[] = []): AuditItem[] {
+    const profile = getStandardProfile(standard);
+    const automation = new PseudoAutomationEngine();
+    const seen = new Set<string>();
+    const items: AuditItem[] = [];
+    const needsReview = new Set(scans.flatMap(page => (page.needsReview ?? []).map(report => report.ruleId)));
+
+    for (const rule of getAllConvergenceRules(lang)) {
+        const { automated, requiresManualCheck, pseudoAutomation } = rule.testability;
+        if (seen.has(rule.ruleId) || !profile.appliesTo(rule)) continue;
+        if (automated && !requiresManualCheck && !pseudoAutomation && !needsReview.has(rule.ruleId)) continue;
+        seen.add(rule.ruleId);
+
+        const report = generateRegulatoryReport(rule.ruleId, lang);
+        items.push({
+            id: rule.ruleId,
+            kind: 'rule',
+            title: rule.wcagTitle,
+            wcagCriteria: rule.wcagCriteria,
+            en301549Criteria: rule.en301549Criteria,
+            pseudoAutomation,
+            checklist: report ? automation.generateManualChecklist(report).trim() : ''
+        });
+    }
+
+    for (const check of getICTManualChecklist().filter(candidate => ictChecklistApplies(candidate, categories))) {
+        items.push({
+            id: check.id,
+            kind: 'ict',
+            title: check.title,
+            en301549Criteria: check.id,
+            pseudoAutomation: false,
+            checklist: automation.generateICTChecklist(check).trim()
+        });
+    }
+
+    return items;
+}
+
+/**
+ * Läser scanresultat (JSON-output från scannern, en sida eller flera)
+ */
+export async function loadScanResults(filePaths: string[]): Promise<ScanResult[]> {
+    const pages: ScanResult[] = [];
+    for (const filePath of filePaths) {
+        let data: ScanResult | SiteScanResult;
+        try {
+            data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        } catch (error) {
+            throw new Error(`Could not read scan result '${filePath}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if ('pages' in data && Array.isArray(data.pages)) {
+            pages.push(...data.pages);
+        } else if (Array.isArray((data as ScanResult).reports)) {
+            pages.push(data as ScanResult);
+        } else {
+            throw new Error(`'${filePath}' is not a scan result (run the scanner with --json)`);
+        }
+    }
+    return pages;
+}
+
+/**
+ * Scanresultaten som granskningsfilen pekar på (sökvägarna är relativa filen)
+ */
+export async function loadAuditScans(audit: AuditFile, auditPath: string): Promise<ScanResult[]> {
+    const dir = path.dirname(path.resolve(auditPath));
+    return loadScanResults(audit.scans.map(scan => path.resolve(dir, scan)));
+}
+
+/**
+ * Samlad bedömning: FAIL vid automatiska brister i standarden eller underkända manuella krav,
+ * INCOMPLETE så länge något krav saknar utfall, annars PASS
+ */
+export function computeAuditVerdict(audit: AuditFile, scans: ScanResult[], items: AuditItem[]): AuditVerdict {
+    const failedRules = Array.from(new Set(scans.flatMap(page => page.reports.map(report => report.ruleId))));
+    const byStatus = (status: ManualCheckResult['status']) => audit.results.filter(result => result.status === status).map(result => result.id);
+    const recorded = new Set(audit.results.map(result => result.id));
+
+    // Krav som redan fallerar automatiskt behöver inte granskas manuellt för domen
+    const pending = items
+        .filter(item => !recorded.has(item.id) && !failedRules.includes(item.id))
+        .map(item => item.id);
+    const failed = byStatus('fail');
+
+    return {
+        status: failedRules.length > 0 || failed.length > 0 ? 'FAIL' : pending.length > 0 ? 'INCOMPLETE' : 'PASS',
+        automated: { pages: scans.length, failedRules },
+        manual: {
+            passed: byStatus('pass'),
+            failed,
+            notApplicable: byStatus('not-applicable'),
+            pending
+        }
+    };
+}
@@ -0,0 +1,69 @@
+/**
+ * Manual Results
+ * Utfall från manuell granskning. Kompletterar de automatiska fynden för krav som
+ * inte går att testa automatiskt (redogörelse, konformitetsmatris, audit).
+ */
+
+import { promises as fs } from 'fs';
+import {
+    getConvergenceRule,
+    getICTManualChecklist,
+    ConvergenceRule,
+    ICTManualCheck
+} from '@holmdigital/standards';
+
+export type ManualCheckStatus = 'pass' | 'fail' | 'not-applicable';
+
+export const MANUAL_CHECK_STATUSES: ManualCheckStatus[] = ['pass', 'fail', 'not-applicable'];
+
+export interface ManualCheckResult {
+    id: string;               // ruleId i @holmdigital/standards eller en IKT-kontroll (EN 301 549-klausul, t.ex. "11.8.2")
+    status: ManualCheckStatus;
+    notes?: string;
+    screenshots?: string[];   // Sökvägar till skärmdumpar
+    url?: string;             // Sidan som granskades
+    testedAt?: string;
+    tester?: string;
+}
+
+/**
+ * Ett manuellt utfall kopplat till kravet det gäller
+ */
+export interface ResolvedManualCheck {
+    result: ManualCheckResult;
+    rule?: ConvergenceRule;
+    check?: ICTManualCheck;
+}
+
+/**
+ * Slår upp vilket krav ett utfall gäller – regler går före IKT-kontroller med samma ID
+ */
+export function resolveManualCheck(result: ManualCheckResult, lang: string = 'en'): ResolvedManualCheck {
+    const rule = getConvergenceRule(result.id, lang);
+    if (rule) return { result, rule };
+    const check = getICTManualChecklist().find(candidate => candidate.id === result.id);
+    return check ? { result, check } : { result };
+}
+
+/**
+ * Läser utfall från en JSON-fil: en lista, eller ett objekt med `results`
+ */
+export async function loadManualResults(filePath: string): Promise<ManualCheckResult[]> {
+    let data: unknown;
+    try {
+        data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Could not read manual results from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const results = Array.isArray(data) ? data : (data as { results?: unknown })?.results;
+    if (!Array.isArray(results)) {
+        throw new Error(`Manual results in ${filePath} must be an array or an object with a "results" array`);
+    }
+    results.forEach((entry, index) => {
+        if (typeof entry?.id !== 'string' || !MANUAL_CHECK_STATUSES.includes(entry?.status)) {
+            throw new Error(`Manual result #${index} in ${filePath} needs an "id" and a "status" (${MANUAL_CHECK_STATUSES.join(', ')})`);
+        }
+    });
+    return results as ManualCheckResult[];
+}
@@ -0,0 +1,118 @@
+/**
+ * Hjälpfunktioner som installeras i sidan (window.__hd) och delas av motorns kontroller:
+ * selectors över shadow-gränser, HTML-utdrag, sammansatta föräldrar och synlighet.
+ */
+
+import type { Page } from 'puppeteer';
+
+export interface PageRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface HdPageHelpers {
+    /** Selector som puppeteer förstår; ">>>" markerar en shadow-gräns */
+    selectorFor(element: Element): string;
+    snippet(element: Element): string;
+    /** Förälder i det sammansatta trädet (slot, förälder eller shadow-värd) */
+    composedParent(element: Element): Element | null;
+    /** Alla element i dokumentordning, inklusive öppna shadow roots */
+    composedElements(root?: Document | ShadowRoot): Element[];
+    /** Fokuserat element, även inuti shadow roots */
+    deepActiveElement(): Element | null;
+    isVisible(element: Element): boolean;
+    /** Rektangel i dokumentkoordinater (oberoende av scroll) */
+    documentRect(element: Element): PageRect;
+}
+
+declare global {
+    interface Window {
+        __hd: HdPageHelpers;
+    }
+}
+
+/**
+ * Installerar window.__hd i sidan (idempotent)
+ */
+export async function installPageHelpers(page: Page): Promise<void> {
+    await page.evaluate(() => {
+        if (window.__hd) return;
+
+        const SNIPPET_MAX_LENGTH = 250;
+
+        function composedParent(element: Element): Element | null {
+            if (element.assignedSlot) return element.assignedSlot;
+            if (element.parentElement) return element.parentElement;
+            const root = element.getRootNode();
+            return root instanceof ShadowRoot ? root.host : null;
+        }
+
+        function selectorFor(element: Element): string {
+            const segments: string[] = [];
+            let segment: string[] = [];
+            let current: Element | null = element;
+
+            while (current) {
+                if (current === document.body) {
+                    segment.unshift('body');
+                } else if (current.id && /^[A-Za-z][\w-]*$/.test(current.id)) {
+                    // Ett id är unikt inom sitt scope – resten av vägen dit behövs inte
+                    segment.unshift(`#${current.id}`);
+                } else {
+                    const tagName = current.tagName.toLowerCase();
+                    const parent: Element | null = current.parentElement;
+                    const siblings = parent
+                        ? Array.from(parent.children).filter(sibling => sibling.tagName === current!.tagName)
+                        : [];
+                    segment.unshift(siblings.length > 1 ? `${tagName}:nth-of-type(${siblings.indexOf(current) + 1})` : tagName);
+                    if (parent) {
+                        current = parent;
+                        continue;
+                    }
+                }
+                const root = current.getRootNode();
+                segments.unshift(segment.join(' > '));
+                segment = [];
+                current = root instanceof ShadowRoot ? root.host : null;
+            }
+            return segments.join(' >>> ');
+        }
+
+        function snippet(element: Element): string {
+            const html = element.outerHTML;
+            return html.length > SNIPPET_MAX_LENGTH ? `${html.slice(0, SNIPPET_MAX_LENGTH - 3)}...` : html;
+        }
+
+        function composedElements(root: Document | ShadowRoot = document): Element[] {
+            const result: Element[] = [];
+            for (const element of Array.from(root.querySelectorAll('*'))) {
+                result.push(element);
+                if (element.shadowRoot) result.push(...composedElements(element.shadowRoot));
+            }
+            return result;
+        }
+
+        function deepActiveElement(): Element | null {
+            let active = document.activeElement;
+            while (active?.shadowRoot?.activeElement) {
+                active = active.shadowRoot.activeElement;
+            }
+            return active;
+        }
+
+        function isVisible(element: Element): boolean {
+            const style = getComputedStyle(element);
+            const rect = element.getBoundingClientRect();
+            return style.visibility !== 'hidden' && style.display !== 'none' && rect.width > 1 && rect.height > 1;
+        }
+
+        function documentRect(element: Element) {
+            const rect = element.getBoundingClientRect();
+            return { x: rect.x + window.scrollX, y: rect.y + window.scrollY, width: rect.width, height: rect.height };
+        }
+
+        window.__hd = { selectorFor, snippet, composedParent, composedElements, deepActiveElement, isVisible, documentRect };
+    });
+}
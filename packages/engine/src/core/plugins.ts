@@ -0,0 +1,111 @@
+/**
+ * Plugins
+ * Organisationsspecifika krav utan att forka databasen: egna ConvergenceRule-poster per språk
+ * plus kontrollerna som hittar dem (axe-regler eller VirtualDOM-regler).
+ */
+
+import type { Check as AxeCheck, Rule as AxeRule } from 'axe-core';
+import type { Frame, Page } from 'puppeteer';
+import { getConvergenceRule, registerConvergenceRules, RuleSet } from '@holmdigital/standards';
+import type { VirtualRule } from './rule-engine';
+
+/**
+ * En egen axe-regel. Fynden rapporteras mot ruleId i @holmdigital/standards.
+ */
+export interface AxePluginRule {
+    ruleId: string;
+    rule: AxeRule;        // Körs alltid, oavsett standardens taggar
+    checks?: AxeCheck[];  // evaluate/after skickas som källkod till sidan och får inte använda variabler utanför funktionen
+}
+
+export interface ScannerPlugin {
+    name: string;
+    rules?: RuleSet;             // Nya regler per språk, t.ex. { en: [...], sv: [...] }
+    axeRules?: AxePluginRule[];
+    virtualRules?: VirtualRule[];
+}
+
+/**
+ * axe-konfiguration i en form som går att skicka till sidan (funktioner som källkod)
+ */
+export interface AxePluginSpec {
+    rules: Array<Record<string, unknown>>;
+    checks: Array<Record<string, unknown>>;
+}
+
+interface SerializedFunction {
+    __hdFunction: string;
+}
+
+/**
+ * Typad hjälpare för plugin-moduler
+ */
+export function definePlugin(plugin: ScannerPlugin): ScannerPlugin {
+    return plugin;
+}
+
+/**
+ * Registrerar pluginens regler i @holmdigital/standards (validerade mot convergence-schema.json).
+ * axe-reglernas ruleId måste finnas efteråt – i databasen eller bland pluginens egna regler.
+ */
+export function registerPlugins(plugins: ScannerPlugin[]): void {
+    for (const plugin of plugins) {
+        try {
+            if (plugin.rules) registerConvergenceRules(plugin.rules);
+        } catch (error) {
+            throw new Error(`Plugin '${plugin.name}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        for (const { rule, ruleId } of plugin.axeRules ?? []) {
+            if (!getConvergenceRule(ruleId)) {
+                throw new Error(`Plugin '${plugin.name}': axe rule '${rule.id}' references unknown ruleId '${ruleId}'`);
+            }
+        }
+    }
+}
+
+/**
+ * axe-regel-ID → ruleId i databasen
+ */
+export function axeRuleMapping(plugins: ScannerPlugin[]): Map<string, string> {
+    return new Map(plugins.flatMap(plugin => (plugin.axeRules ?? []).map(entry => [entry.rule.id, entry.ruleId] as [string, string])));
+}
+
+function serializeFunction(value: unknown): unknown {
+    if (typeof value !== 'function') return value;
+    const source = value.toString();
+    // Metodsyntax (`evaluate(node) { ... }`) är inget uttryck – gör den till en funktion
+    const isExpression = /^(async\s+)?function\b/.test(source) || /^(async\s*)?(\([^)]*\)|[\w$]+)\s*=>/.test(source);
+    const expression = isExpression ? source : source.replace(/^(async\s+)?/, match => `${match}function `);
+    return { __hdFunction: expression } satisfies SerializedFunction;
+}
+
+export function serializeAxePlugins(plugins: ScannerPlugin[]): AxePluginSpec | null {
+    const entries = plugins.flatMap(plugin => plugin.axeRules ?? []);
+    if (entries.length === 0) return null;
+
+    return {
+        rules: entries.map(({ rule }) => ({ ...rule, matches: serializeFunction(rule.matches) })),
+        checks: entries.flatMap(entry => entry.checks ?? []).map(check => ({
+            ...check,
+            evaluate: serializeFunction(check.evaluate),
+            after: serializeFunction(check.after)
+        }))
+    };
+}
+
+/**
+ * Lägger till pluginens regler i axe i ett dokument där axe redan är injicerat
+ */
+export async function configureAxePlugins(target: Page | Frame, spec: AxePluginSpec): Promise<void> {
+    await target.evaluate((spec: AxePluginSpec) => {
+        const revive = (value: unknown) => (value && typeof value === 'object' && '__hdFunction' in value
+            ? new Function(`return (${(value as { __hdFunction: string }).__hdFunction})`)()
+            : value);
+        const strip = (entry: Record<string, unknown>) =>
+            Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined).map(([key, value]) => [key, revive(value)]));
+
+        // @ts-ignore
+        window.axe.configure({ checks: spec.checks.map(strip), rules: spec.rules.map(strip) });
+    }, spec);
+}
@@ -0,0 +1,96 @@
+/**
+ * Reflow Analyzer
+ * Renderar om sidan vid 320 CSS px bredd (WCAG 1.4.10) och med text förstorad till 200 % (WCAG 1.4.4).
+ * Bara problem som inte fanns i sidans normala läge rapporteras.
+ */
+
+import type { Page } from 'puppeteer';
+import type { EngineFinding } from './rule-engine';
+import { probeLayout, settleLayout, newLayoutIssues, toFailingNodes } from './layout-probe';
+
+// 1280 px vid 400 % zoom
+const REFLOW_VIEWPORT = { width: 320, height: 256 };
+const TEXT_ZOOM = 2;
+
+declare global {
+    interface Window {
+        __hdTextZoom?: Map<HTMLElement, string>;
+    }
+}
+
+/**
+ * Förstorar all text som en textzoom i webbläsaren gör: font-size (och line-height i px)
+ * skalas per element, så att även text i px växer. Ursprunglig inline-stil sparas för återställning.
+ */
+function applyTextZoom(factor: number): void {
+    const { composedElements } = window.__hd;
+    const saved = new Map<HTMLElement, string>();
+
+    // Läs alla värden först – att skriva påverkar barnens computed style
+    const sizes = composedElements()
+        .filter((element): element is HTMLElement => element instanceof HTMLElement)
+        .map(element => {
+            const style = getComputedStyle(element);
+            return { element, fontSize: parseFloat(style.fontSize), lineHeight: style.lineHeight };
+        });
+
+    for (const { element, fontSize, lineHeight } of sizes) {
+        saved.set(element, element.style.cssText);
+        element.style.setProperty('font-size', `${fontSize * factor}px`, 'important');
+        if (lineHeight.endsWith('px')) {
+            element.style.setProperty('line-height', `${parseFloat(lineHeight) * factor}px`, 'important');
+        }
+    }
+    window.__hdTextZoom = saved;
+}
+
+function resetTextZoom(): void {
+    window.__hdTextZoom?.forEach((cssText, element) => {
+        element.style.cssText = cssText;
+    });
+    window.__hdTextZoom = undefined;
+}
+
+/**
+ * Kör reflow- och textzoomkontrollen. Viewport och stilar återställs efteråt.
+ */
+export async function analyzeReflow(page: Page): Promise<EngineFinding[]> {
+    const viewport = page.viewport();
+    const baseline = await probeLayout(page);
+    const findings: EngineFinding[] = [];
+
+    try {
+        await page.setViewport({ ...viewport, ...REFLOW_VIEWPORT });
+        await settleLayout(page);
+        const narrow = newLayoutIssues(baseline, await probeLayout(page));
+        if (narrow.length > 0) {
+            findings.push({
+                engineRuleId: 'hd-reflow',
+                ruleId: 'reflow',
+                nodes: toFailingNodes(narrow, `At ${REFLOW_VIEWPORT.width} CSS px width`)
+            });
+        }
+    } finally {
+        if (viewport) await page.setViewport(viewport);
+    }
+    await settleLayout(page);
+
+    try {
+        await page.evaluate(applyTextZoom, TEXT_ZOOM);
+        await settleLayout(page);
+        // Horisontell scroll vid textzoom är ingen förlust av innehåll – bara avklippt och överlappande text
+        const zoomed = newLayoutIssues(baseline, await probeLayout(page))
+            .filter(issue => issue.kind !== 'horizontal-scroll');
+        if (zoomed.length > 0) {
+            findings.push({
+                engineRuleId: 'hd-resize-text',
+                ruleId: 'resize-text',
+                nodes: toFailingNodes(zoomed, `At ${TEXT_ZOOM * 100}% text size`)
+            });
+        }
+    } finally {
+        await page.evaluate(resetTextZoom);
+    }
+
+    return findings;
+}
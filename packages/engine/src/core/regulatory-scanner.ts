@@ -3,24 +3,121 @@
  * Kärnan i @holmdigital/engine som kombinerar teknisk scanning med regulatorisk data
  */
 
-import puppeteer, { Browser, Page } from 'puppeteer';
-import type { RegulatoryReport } from '@holmdigital/standards';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import puppeteer, { Browser, Frame, Page } from 'puppeteer';
+import type { RegulatoryReport, DiggRisk } from '@holmdigital/standards';
 import { VirtualDOMBuilder } from './virtual-dom';
 import { HtmlValidator, ValidationResult } from './html-validator';
+import { getStandardProfile, ComplianceStandard, StandardProfile } from './standard-profiles';
+import { AuthSession, AuthOptions } from './auth';
+import { UserFlow, FlowScanResult, describeFlowStep, executeFlowStep } from './user-flow';
+import { RuleEngine, VirtualRule, mergeFindings } from './rule-engine';
+import { BUILT_IN_VIRTUAL_RULES } from './virtual-rules';
+import { analyzeContrast } from './contrast-analyzer';
+import { FrameScanOptions, scanFrames, mergeFrameViolations } from './frame-scanner';
+import { ScannerPlugin, AxePluginSpec, registerPlugins, axeRuleMapping, serializeAxePlugins, configureAxePlugins } from './plugins';
+import { analyzeReflow } from './reflow-analyzer';
+import { analyzeTextSpacing } from './text-spacing';
+import { analyzeKeyboard, FocusStop } from './keyboard-traversal';
+import { ScreenshotOptions, captureScreenshots, screenshotDirName } from './screenshots';
+import { ScoringModel, ScoreBreakdown, FIXED_SCORING, scoreReports } from './scoring';
+import { getCurrentLang } from '../i18n';
+import { SiteCrawler, aggregateScanResults, CrawlOptions, CrawlTarget, SiteScanResult } from './site-crawler';
+
+export interface Viewport {
+    width: number;
+    height: number;
+}
+
+/**
+ * Slå på/av regler och skriv över risknivån per ruleId
+ */
+export interface RuleOverrides {
+    enable?: string[];   // axe-regler som körs även om de ligger utanför standardens taggar
+    disable?: string[];  // axe- eller databasregler som aldrig rapporteras
+    severity?: Record<string, DiggRisk>;
+}
+
+/**
+ * En sida att scanna, med egen viewport om den ska skilja sig från standard
+ */
+export interface PageTarget {
+    url: string;
+    viewport?: Viewport;
+}
+
+/**
+ * Motorns egna kontroller som körs utöver axe
+ */
+export interface EngineChecks {
+    contrast?: boolean; // Kontrast från computed styles + pixlar (default på)
+    reflow?: boolean;   // Omrendering vid 320 CSS px och 200 % text (default på)
+    textSpacing?: boolean; // Layout med WCAG 1.4.12-avstånd (default på)
+    keyboard?: boolean; // Tab-traversering: fokusordning, fällor och fokusmarkering (default på)
+}
+
+export const ENGINE_CHECK_NAMES: Array<keyof EngineChecks> = ['contrast', 'reflow', 'textSpacing', 'keyboard'];
 
 export interface ScannerOptions {
     url: string;
     headless?: boolean;
-    standard?: 'wcag' | 'en301549' | 'dos-lagen';
+    standard?: ComplianceStandard;
+    includeBestPractices?: boolean; // Kör även axe best-practice-regler (rapporteras utanför standarden)
     failOnCritical?: boolean;
-    viewport?: { width: number; height: number };
+    viewport?: Viewport;
+    rules?: RuleOverrides;
+    virtualRules?: VirtualRule[]; // Egna regler på VirtualDOM-trädet (utöver de inbyggda)
+    plugins?: ScannerPlugin[];    // Egna databasregler + axe-/VirtualDOM-kontroller
+    checks?: EngineChecks;
+    auth?: AuthOptions; // Headers, cookies, Basic Auth och inloggning
+    frames?: boolean | FrameScanOptions; // Scanna även iframes (default av)
+    screenshots?: ScreenshotOptions; // Bilder av fallerande element och hela sidan (default av)
+    scoring?: ScoringModel; // Poängmodell för score (default FIXED_SCORING)
     silent?: boolean; // Suppress debug output (for --json mode)
+    crawl?: CrawlOptions; // Används av crawl()
+}
+
+/**
+ * Ett element som fallerade en regel (från axe eller motorns egna kontroller)
+ */
+export interface FailingNode {
+    html: string;
+    target: string;
+    failureSummary?: string;
+    frame?: string; // URL till iframen där elementet finns (saknas för huvuddokumentet)
+    marker?: number; // Numret på elementets markör i helsidesbilden
+    screenshot?: string; // Sökväg till den beskurna bilden av elementet
+}
+
+/**
+ * RegulatoryReport berikad med de element som faktiskt fallerade på sidan
+ */
+export interface ScanReport extends RegulatoryReport {
+    failingNodes?: FailingNode[];
+}
+
+/**
+ * En regel som axe godkände på sidan – bevis för granskningen
+ */
+export interface PassedRule {
+    ruleId: string;
+    wcagCriteria: string;
+    en301549Criteria: string;
+    nodes: number; // Antal element som klarade regeln
 }
 
 export interface ScanResult {
     url: string;
+    /** Flödessteget där sidan scannades (bara för runFlow) */
+    step?: string;
     timestamp: string;
-    reports: RegulatoryReport[];
+    standard: ComplianceStandard;
+    reports: ScanReport[];
+    /** Fynd som inte omfattas av vald standard – räknas inte in i score eller status */
+    outOfScope: ScanReport[];
     stats: {
         critical: number;
         high: number;
@@ -29,14 +126,65 @@ export interface ScanResult {
         total: number;
     };
     score: number;
+    /** Hur score räknades fram: avdrag per regel och delpoäng per WCAG-princip */
+    scoreBreakdown?: ScoreBreakdown;
     complianceStatus: 'PASS' | 'FAIL';
     htmlValidation?: ValidationResult;
+    /** Fokusordningen när sidan tabbades igenom (keyboard-kontrollen) */
+    focusOrder?: FocusStop[];
+    /** Element som axe inte kunde avgöra ("incomplete") inom standarden – granskas manuellt, påverkar inte score */
+    needsReview?: ScanReport[];
+    /** Regler inom standarden som axe godkände och som inte fallerade på sidan */
+    passes?: PassedRule[];
+    /** Helsidesbild med numrerade markörer (options.screenshots) */
+    screenshot?: string;
+}
+
+/**
+ * Kör axe i ett dokument (sidan eller en iframe). Serialiseras till webbläsaren.
+ */
+async function runAxe(tags: string[], enable: string[], disable: string[]): Promise<any> {
+    // Safety check: Ensure we have a document to scan
+    if (!document || !document.documentElement) {
+        return { violations: [] }; // Fail gracefully
+    }
+
+    // Bara regel-ID:n som axe känner till får skickas med (databas-ID:n kan skilja sig)
+    // @ts-ignore
+    const knownRules = new Set(window.axe.getRules().map((rule: any) => rule.ruleId));
+    const rules: Record<string, { enabled: boolean }> = {};
+    enable.filter(id => knownRules.has(id)).forEach(id => { rules[id] = { enabled: true }; });
+    disable.filter(id => knownRules.has(id)).forEach(id => { rules[id] = { enabled: false }; });
+
+    // @ts-ignore
+    const results = await window.axe.run(document, {
+        iframes: false, // Ramar scannas var för sig (options.frames) – axe:s egen ramhantering kraschar på tunga annons-sajter
+        runOnly: {
+            type: 'tag',
+            values: tags
+        },
+        rules
+    });
+
+    // Godkända element behövs bara som selectors – med HTML blir de megabyte på stora sidor
+    results.passes = results.passes.map((pass: any) => ({
+        id: pass.id,
+        tags: pass.tags,
+        nodes: pass.nodes.map((node: any) => ({ target: node.target }))
+    }));
+    results.inapplicable = [];
+    return results;
 }
 
 export class RegulatoryScanner {
     private browser: Browser | null = null;
+    private auth: AuthSession | null = null;
     private options: ScannerOptions;
     private htmlValidator: HtmlValidator;
+    private ruleEngine: RuleEngine;
+    private axePlugins: AxePluginSpec | null;
+    private axeRuleIds: Map<string, string>;
+    private screenshotCount = 0; // Löpnummer för sidornas bildkataloger
 
     constructor(options: ScannerOptions) {
         this.options = {
@@ -46,6 +194,17 @@ export class RegulatoryScanner {
             ...options
         };
         this.htmlValidator = new HtmlValidator();
+
+        // Pluginens databasregler måste finnas innan RuleEngine validerar ruleId:n
+        const plugins = this.options.plugins ?? [];
+        registerPlugins(plugins);
+        this.ruleEngine = new RuleEngine([
+            ...BUILT_IN_VIRTUAL_RULES,
+            ...(this.options.virtualRules ?? []),
+            ...plugins.flatMap(plugin => plugin.virtualRules ?? [])
+        ]);
+        this.axePlugins = serializeAxePlugins(plugins);
+        this.axeRuleIds = axeRuleMapping(plugins);
     }
 
     /** Log only when not in silent mode */
@@ -61,88 +220,378 @@ export class RegulatoryScanner {
     async scan(): Promise<ScanResult> {
         try {
             await this.initBrowser();
-            const page = await this.getPage();
+            return await this.scanUrl(this.options.url);
+        } finally {
+            await this.close();
+        }
+    }
 
-            // Set Viewport
-            if (this.options.viewport) {
-                await page.setViewport(this.options.viewport);
-            }
+    /**
+     * Crawlar sajten från options.url och scannar varje hittad sida
+     */
+    async crawl(crawlOptions: CrawlOptions = this.options.crawl ?? {}): Promise<SiteScanResult> {
+        // robots.txt och sitemap.xml kan också kräva inloggning – sessionen finns efter initBrowser()
+        const crawler = new SiteCrawler(
+            this.options.url,
+            crawlOptions,
+            message => this.log(message),
+            url => this.auth?.requestHeaders(url) ?? {}
+        );
+        const pages: ScanResult[] = [];
+        const failedPages: SiteScanResult['failedPages'] = [];
+
+        try {
+            await this.initBrowser();
+            await crawler.discover();
+
+            let target: CrawlTarget | null;
+            while ((target = crawler.next())) {
+                const { url, depth } = target;
+                this.log(`Crawling (${pages.length + failedPages.length + 1}) ${url}`);
 
-            // Navigera till URL (med retry logic)
-            let retries = 3;
-            while (retries > 0) {
                 try {
-                    await page.goto(this.options.url, {
-                        waitUntil: 'domcontentloaded',
-                        timeout: 60000
+                    const result = await this.scanUrl(url, async page => {
+                        crawler.markVisited(page.url());
+                        crawler.addLinks(await crawler.extractLinks(page), depth + 1);
                     });
-                    break; // Success
+                    pages.push(result);
                 } catch (e) {
-                    retries--;
-                    if (retries === 0) throw e;
-                    this.log(`Navigation failed, retrying... (${retries} attempts left)`);
-                    await new Promise(resolve => setTimeout(resolve, 2000));
+                    // En trasig sida ska inte stoppa resten av crawlen
+                    failedPages.push({ url, error: e instanceof Error ? e.message : String(e) });
+                    this.log(`Failed to scan ${url}`);
                 }
             }
+        } finally {
+            await this.close();
+        }
 
-            try {
-                // Best-effort väntan på att nätverket ska lugna ner sig
-                await page.waitForNetworkIdle({
-                    idleTime: 500,
-                    timeout: 10000,
-                    concurrency: 2
-                });
-            } catch (e) {
-                this.log('Network busy, proceeding with scan anyway...');
-            }
+        return aggregateScanResults(this.options.url, pages, failedPages, crawler.recurringMinPages);
+    }
 
-            // Capture HTML for validation
-            const pageContent = await page.content();
-            const htmlValidation = await this.htmlValidator.validate(pageContent);
-            if (!htmlValidation.valid) {
-                this.log(`HTML Validation: Found ${htmlValidation.errors.length} structural issues.`);
-            }
+    /**
+     * Scannar en lista av URL:er (t.ex. lokala filer eller URL:er från en konfigfil) med samma webbläsare
+     */
+    async scanMany(targets: Array<string | PageTarget>): Promise<SiteScanResult> {
+        const pages: ScanResult[] = [];
+        const failedPages: SiteScanResult['failedPages'] = [];
 
-            // Bygg Virtual DOM för analys (används för avancerade regler senare)
-            const vDomBuilder = new VirtualDOMBuilder(page);
-            await vDomBuilder.build({ includeComputedStyle: ['color', 'background-color'] });
-
-            // Kör axe-core
-            await this.injectAxe(page);
-            this.log('Axe injected. Running analysis...');
-            const axeResults = await page.evaluate(async () => {
-                // Safety check: Ensure we have a document to scan
-                if (!document || !document.documentElement) {
-                    return { violations: [] }; // Fail gracefully
+        try {
+            await this.initBrowser(targets.map(target => typeof target === 'string' ? target : target.url));
+            for (const target of targets) {
+                const { url, viewport } = typeof target === 'string' ? { url: target, viewport: undefined } : target;
+                this.log(`Scanning (${pages.length + failedPages.length + 1}/${targets.length}) ${url}`);
+                try {
+                    pages.push(await this.scanUrl(url, undefined, viewport));
+                } catch (e) {
+                    failedPages.push({ url, error: e instanceof Error ? e.message : String(e) });
+                    this.log(`Failed to scan ${url}`);
                 }
+            }
+        } finally {
+            await this.close();
+        }
+
+        return aggregateScanResults(this.options.url, pages, failedPages);
+    }
+
+    /**
+     * Kör ett scriptat flöde i en och samma flik och scannar vid varje "scan"-steg.
+     * Ett misslyckat steg avbryter flödet; resultaten fram till dess behålls.
+     */
+    async runFlow(flow: UserFlow): Promise<FlowScanResult> {
+        const startUrl = flow.url ?? this.options.url;
+        const pages: ScanResult[] = [];
+        const failedPages: SiteScanResult['failedPages'] = [];
+
+        const scanStep = async (page: Page, name: string) => {
+            this.log(`Scanning step "${name}"`);
+            const result = await this.analyzePage(page, page.url(), { flowStep: true });
+            pages.push({ ...result, step: name });
+        };
+
+        try {
+            await this.initBrowser([startUrl]);
+            await this.withPage(async page => {
+                await this.navigate(page, startUrl);
+
+                for (const [index, step] of flow.steps.entries()) {
+                    const label = describeFlowStep(step, index);
+                    try {
+                        if (step.action === 'scan') {
+                            await scanStep(page, step.name);
+                            continue;
+                        }
 
-                // @ts-ignore
-                return await window.axe.run(document, {
-                    iframes: false, // Inaktivera iframe-scanning för att undvika kraschar på tunga annons-sajter
-                    // Vi tar bort runOnly tillfälligt för att se ALLA fel
-                    /*
-                    runOnly: {
-                        type: 'tag',
-                        values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa']
+                        this.log(`Flow step: ${label}`);
+                        await executeFlowStep(page, step);
+                        await this.waitForNetworkIdle(page);
+
+                        if (flow.scanAfterEachStep) {
+                            await scanStep(page, label);
+                        }
+                    } catch (e) {
+                        // Följande steg bygger på det här – avbryt flödet
+                        failedPages.push({ url: page.url(), error: `${label}: ${e instanceof Error ? e.message : String(e)}` });
+                        this.log(`Flow step failed: ${label}`);
+                        break;
                     }
-                    */
-                });
+                }
+            }, flow.viewport ?? this.options.viewport);
+        } finally {
+            await this.close();
+        }
+
+        return { ...aggregateScanResults(startUrl, pages, failedPages), flow: flow.name };
+    }
+
+    /**
+     * Scannar en HTML-sträng utan webbserver.
+     * Relativa resurser löses mot baseUrl om den anges.
+     */
+    async scanHtml(html: string, baseUrl?: string): Promise<ScanResult> {
+        try {
+            await this.initBrowser();
+            return await this.withPage(async page => {
+                await this.loadHtml(page, html, baseUrl);
+                return await this.analyzePage(page, baseUrl ?? this.options.url);
             });
-            this.log(`Raw Axe Violations: ${axeResults.violations?.length || 0}`);
+        } finally {
+            await this.close();
+        }
+    }
 
-            // Transformera resultat med regulatorisk kontext
-            const regulatoryReports = await this.enrichResults(axeResults);
+    /**
+     * Scannar en URL i en ny flik i den redan startade webbläsaren
+     */
+    private async scanUrl(
+        url: string,
+        afterScan?: (page: Page) => Promise<void>,
+        viewport?: Viewport
+    ): Promise<ScanResult> {
+        return await this.withPage(async page => {
+            await this.navigate(page, url);
+            const result = await this.analyzePage(page, url);
 
-            const result = this.generateResultPackage(regulatoryReports);
-            result.htmlValidation = htmlValidation; // Attach validation result
+            if (afterScan) {
+                await afterScan(page);
+            }
             return result;
+        }, viewport);
+    }
 
+    /**
+     * Öppnar en flik med rätt viewport och stänger den när callbacken är klar
+     */
+    private async withPage<T>(callback: (page: Page) => Promise<T>, viewport: Viewport | undefined = this.options.viewport): Promise<T> {
+        const page = await this.getPage();
+        try {
+            // Set Viewport
+            if (viewport) {
+                await page.setViewport(viewport);
+            }
+            return await callback(page);
         } finally {
-            await this.close();
+            await page.close();
+        }
+    }
+
+    private async loadHtml(page: Page, html: string, baseUrl?: string) {
+        if (baseUrl && /^https?:/.test(baseUrl)) {
+            // Svara på navigeringen med vår HTML så att origin och relativa resurser blir korrekta
+            let served = false;
+            await page.setRequestInterception(true);
+            page.on('request', request => {
+                if (request.isInterceptResolutionHandled()) return;
+                // Prioritet 0 = kooperativ interception, så att autentiseringens handler kan köras på samma flik
+                if (!served && request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+                    served = true;
+                    request.respond({ status: 200, contentType: 'text/html; charset=utf-8', body: html }, 0);
+                } else {
+                    request.continue(request.continueRequestOverrides(), 0);
+                }
+            });
+            // Varje nytt försök ska också få vår HTML, inte gå ut på nätverket
+            await this.navigate(page, baseUrl, () => { served = false; });
+            return;
+        }
+
+        if (baseUrl?.startsWith('file:')) {
+            // Chrome blockerar file://-resurser från about:blank, så sidan laddas som en fil.
+            // Filen ligger i systemets temp-katalog (inte i användarens källkod) och <base> pekar på baskatalogen.
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hd-a11y-'));
+            const file = path.join(dir, 'index.html');
+            await fs.writeFile(file, injectBaseHref(html, baseUrl), 'utf-8');
+            try {
+                await this.navigate(page, pathToFileURL(file).href);
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true });
+            }
+            return;
+        }
+
+        // Ingen bas, eller en bas som inte är http(s)/file – en <base> räcker för att lösa relativa resurser
+        await page.setContent(baseUrl ? injectBaseHref(html, baseUrl) : html, {
+            waitUntil: 'domcontentloaded',
+            timeout: 60000
+        });
+        await this.waitForNetworkIdle(page);
+    }
+
+    private async navigate(page: Page, url: string, beforeAttempt?: () => void) {
+        // Navigera till URL (med retry logic)
+        let retries = 3;
+        while (retries > 0) {
+            try {
+                beforeAttempt?.();
+                await page.goto(url, {
+                    waitUntil: 'domcontentloaded',
+                    timeout: 60000
+                });
+                break; // Success
+            } catch (e) {
+                retries--;
+                if (retries === 0) throw e;
+                this.log(`Navigation failed, retrying... (${retries} attempts left)`);
+                await new Promise(resolve => setTimeout(resolve, 2000));
+            }
+        }
+
+        await this.waitForNetworkIdle(page);
+    }
+
+    private async waitForNetworkIdle(page: Page) {
+        try {
+            // Best-effort väntan på att nätverket ska lugna ner sig
+            await page.waitForNetworkIdle({
+                idleTime: 500,
+                timeout: 10000,
+                concurrency: 2
+            });
+        } catch (e) {
+            this.log('Network busy, proceeding with scan anyway...');
+        }
+    }
+
+    /**
+     * Analyserar den sida som redan är laddad i fliken.
+     * `flowStep`: sidan är mitt i ett flöde, så kontroller som ändrar sidans tillstånd hoppas över.
+     */
+    private async analyzePage(page: Page, url: string, { flowStep = false }: { flowStep?: boolean } = {}): Promise<ScanResult> {
+        // Capture HTML for validation
+        const pageContent = await page.content();
+        const htmlValidation = await this.htmlValidator.validate(pageContent);
+        if (!htmlValidation.valid) {
+            this.log(`HTML Validation: Found ${htmlValidation.errors.length} structural issues.`);
+        }
+
+        // Bygg Virtual DOM (inkl. shadow roots) för motorns egna regler
+        const vDomBuilder = new VirtualDOMBuilder(page);
+        const virtualDom = await vDomBuilder.build({
+            includeComputedStyle: Array.from(new Set(['color', 'background-color', ...this.ruleEngine.requiredStyles]))
+        });
+
+        // Kör axe-core med taggarna för vald standard
+        const profile = getStandardProfile(this.options.standard);
+        const tags = this.options.includeBestPractices
+            ? [...profile.axeTags, 'best-practice']
+            : profile.axeTags;
+
+        const { enable: enabledRules = [], disable = [] } = this.options.rules ?? {};
+        // Pluginens axe-regler saknar oftast standardens taggar och slås därför på explicit
+        const enable = [...enabledRules, ...this.axeRuleIds.keys()];
+
+        await this.injectAxe(page);
+        this.log(`Axe injected. Running analysis for ${profile.name}...`);
+        const axeResults = await page.evaluate(runAxe, tags, enable, disable);
+        this.log(`Raw Axe Violations: ${axeResults.violations?.length || 0}`);
+
+        if (this.options.frames) {
+            const frameOptions = this.options.frames === true ? {} : this.options.frames;
+            const { violations, incomplete, passes, summary } = await scanFrames(page, frameOptions, async frame => {
+                await this.injectAxe(frame);
+                return await frame.evaluate(runAxe, tags, enable, disable);
+            });
+            axeResults.violations = mergeFrameViolations(axeResults.violations ?? [], violations);
+            axeResults.incomplete = mergeFrameViolations(axeResults.incomplete ?? [], incomplete);
+            axeResults.passes = mergeFrameViolations(axeResults.passes ?? [], passes);
+            this.log(`Frames: ${summary.scanned.length} scanned, ${summary.skipped.length} skipped, ${summary.failed.length} failed`);
+            summary.failed.forEach(failure => this.log(`  Frame failed: ${failure.url} (${failure.error})`));
+        }
+
+        const findings = this.ruleEngine.run(virtualDom, disable);
+        if (this.options.checks?.contrast !== false) {
+            const contrast = await analyzeContrast(page, axeResults);
+            findings.push(...contrast.findings.filter(finding => !disable.includes(finding.engineRuleId)));
+
+            // Element som kontrastanalysen har mätt behöver ingen manuell granskning. Element den hoppade
+            // över (dolda, ej mätbara bakgrunder, i iframes) ligger kvar i incomplete.
+            axeResults.incomplete = (axeResults.incomplete ?? [])
+                .map((result: any) => result.id === 'color-contrast'
+                    ? { ...result, nodes: result.nodes.filter((node: any) => !contrast.decided.has(node)) }
+                    : result)
+                .filter((result: any) => result.nodes.length > 0);
+        }
+
+        // Transformera resultat med regulatorisk kontext
+        const enriched = await this.enrichResults(axeResults, profile);
+        if (this.options.checks?.reflow !== false) {
+            const reflow = await analyzeReflow(page);
+            findings.push(...reflow.filter(finding => !disable.includes(finding.engineRuleId)));
+        }
+        if (this.options.checks?.textSpacing !== false) {
+            const spacing = await analyzeTextSpacing(page);
+            findings.push(...spacing.filter(finding => !disable.includes(finding.engineRuleId)));
+        }
+        // Sist – Tab flyttar fokus och kan öppna menyer
+        let focusOrder: FocusStop[] | undefined;
+        // Tangentbordskontrollen trycker Tab och Escape och stänger då dialoger och menyer som
+        // flödets tidigare steg har öppnat – i ett flöde skulle nästa steg köras mot en annan sida
+        if (flowStep && this.options.checks?.keyboard !== false) {
+            this.log('Keyboard check skipped in flow steps (it would change the page state)');
+        } else if (this.options.checks?.keyboard !== false) {
+            const keyboard = await analyzeKeyboard(page);
+            focusOrder = keyboard.focusOrder;
+            findings.push(...keyboard.findings.filter(finding => !disable.includes(finding.engineRuleId)));
+            this.log(`Keyboard: ${focusOrder.length} focus stop(s)`);
+        }
+        if (findings.length > 0) {
+            this.log(`Engine checks: ${findings.length} rule(s) with findings`);
+        }
+        const merged = mergeFindings(enriched.reports, enriched.outOfScope, findings, profile, getCurrentLang());
+
+        const reports = this.applyRuleOverrides(merged.reports);
+        const outOfScope = this.applyRuleOverrides(merged.outOfScope);
+        const needsReview = this.applyRuleOverrides(enriched.needsReview);
+        // En regel som fallerade på något element är inte godkänd, även om axe godkände andra element
+        const failed = new Set(reports.map(report => report.ruleId));
+        const passes = enriched.passes.filter(pass => !failed.has(pass.ruleId) && !disable.includes(pass.ruleId));
+        if (needsReview.length > 0) {
+            this.log(`Needs review: ${needsReview.length} rule(s) axe could not decide`);
+        }
+
+        const result = this.generateResultPackage(url, reports, outOfScope);
+        result.htmlValidation = htmlValidation; // Attach validation result
+        result.focusOrder = focusOrder;
+        result.needsReview = needsReview;
+        result.passes = passes;
+
+        if (this.options.screenshots) {
+            try {
+                const name = screenshotDirName(++this.screenshotCount, url);
+                return await captureScreenshots(page, result, this.options.screenshots, name);
+            } catch (e) {
+                // Bilderna är ett komplement – resultatet gäller ändå
+                this.log(`Screenshots failed: ${e instanceof Error ? e.message : String(e)}`);
+            }
         }
+        return result;
     }
 
-    private async initBrowser() {
+    /**
+     * `targetUrls` är alla URL:er körningen scannar – autentiseringen gäller deras origins
+     */
+    private async initBrowser(targetUrls: string[] = [this.options.url]) {
+        if (this.browser) return; // Återanvänd webbläsaren mellan sidor
         this.browser = await puppeteer.launch({
             headless: this.options.headless,
             args: [
@@ -151,6 +600,14 @@ export class RegulatoryScanner {
                 '--disable-blink-features=AutomationControlled' // Gömmer att det är en robot
             ]
         });
+
+        if (this.options.auth) {
+            // Logga in en gång per körning; cookies delas av alla flikar i webbläsaren
+            this.auth = new AuthSession(this.options.auth, this.options.url, targetUrls);
+            if (this.auth.hasCredentials) this.log(`Auth headers are sent to: ${this.auth.targetOrigins.join(', ')}`);
+            if (this.auth.hasLogin) this.log('Logging in...');
+            await this.auth.start(this.browser);
+        }
     }
 
     private async getPage(): Promise<Page> {
@@ -158,68 +615,97 @@ export class RegulatoryScanner {
         const page = await this.browser.newPage();
         // Sätt en riktig User Agent för att undvika att bli blockad eller få en "lite"-version
         await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+        if (this.auth) {
+            await this.auth.applyTo(page);
+        }
         return page;
     }
 
-    private async injectAxe(page: Page) {
+    private async injectAxe(page: Page | Frame) {
         const axeSource = require('axe-core').source;
         await page.evaluate(axeSource);
+        if (this.axePlugins) {
+            await configureAxePlugins(page, this.axePlugins);
+        }
     }
 
-    private async enrichResults(axeResults: any): Promise<RegulatoryReport[]> {
-        const reports: RegulatoryReport[] = [];
-        const { searchRulesByTags, generateRegulatoryReport } = await import('@holmdigital/standards');
+    private async enrichResults(
+        axeResults: any,
+        profile: StandardProfile
+    ): Promise<{ reports: ScanReport[]; outOfScope: ScanReport[]; needsReview: ScanReport[]; passes: PassedRule[] }> {
+        const reports: ScanReport[] = [];
+        const outOfScope: ScanReport[] = [];
+        const { searchRulesByTags, generateRegulatoryReport, getConvergenceRule } = await import('@holmdigital/standards');
         const { getCurrentLang } = await import('../i18n');
         const lang = getCurrentLang();
 
-        for (const violation of axeResults.violations) {
+        // Mappar ett axe-resultat (violation, incomplete eller pass) mot databasen och avgör om det omfattas av standarden.
+        // Tagg-fallbacken är bara till för violations – den mappar många omappade axe-regler mot samma databasregel.
+        const mapResult = (result: any, tagFallback: boolean = true): { report: ScanReport; inScope: boolean; mapped: boolean } => {
             // 1. Försök matcha direkt på Rule ID (mest exakt)
             // Detta garanterar att 'page-has-heading-one' mappar till vår regel med samma ID
-            let report: RegulatoryReport | null = generateRegulatoryReport(violation.id, lang);
+            let report: RegulatoryReport | null = generateRegulatoryReport(this.axeRuleIds.get(result.id) ?? result.id, lang);
 
             // 2. Fallback: Sök via tags
-            if (!report) {
-                const matchingRules = searchRulesByTags(violation.tags, lang);
+            if (!report && tagFallback) {
+                const matchingRules = searchRulesByTags(result.tags, lang);
                 if (matchingRules.length > 0) {
                     report = generateRegulatoryReport(matchingRules[0].ruleId, lang);
                 }
             }
 
+            const failingNodes: FailingNode[] = (result.nodes ?? []).map((node: any) => ({
+                html: node.html,
+                target: node.target.join(' '),
+                failureSummary: node.failureSummary,
+                ...(node.frame ? { frame: node.frame } : {})
+            }));
+
             if (report) {
-                // Lägg till specifik information från axe-violationen
+                // Omfattas regeln av vald standard? (nivå, WCAG-version, DOS-lagen)
+                // axe:s best-practice-regler kan mappa mot en WCAG-regel i databasen men är inget krav.
+                // Pluginens axe-regler saknar oftast taggar och avgörs bara av databasregeln.
+                const rule = getConvergenceRule(report.ruleId, lang);
+                const bestPracticeOnly = !this.axeRuleIds.has(result.id)
+                    && result.tags.includes('best-practice')
+                    && !result.tags.some((tag: string) => profile.axeTags.includes(tag));
+
+                // Lägg till specifik information från axe-resultatet
                 // Vi "patchar" rapporten med faktisk feldata från scanningen
-                reports.push({
-                    ...report,
-                    holmdigitalInsight: {
-                        ...report.holmdigitalInsight,
-                        reasoning: violation.help // Använd Axe's hjälptext som specifik anledning
+                return {
+                    report: {
+                        ...report,
+                        holmdigitalInsight: {
+                            ...report.holmdigitalInsight,
+                            reasoning: result.help // Använd Axe's hjälptext som specifik anledning
+                        },
+                        // Attach extra debug info for the CLI
+                        failingNodes
                     },
-                    // Attach extra debug info for the CLI
-                    failingNodes: violation.nodes.map((node: any) => ({
-                        html: node.html,
-                        target: node.target.join(' '),
-                        failureSummary: node.failureSummary
-                    }))
-                } as any);
-            } else {
-                // Fallback: Om vi inte hittar en regeln i vår databas, skapa en generisk rapport
-                // så att vi inte tappar bort felet.
-                reports.push({
-                    ruleId: violation.id,
+                    inScope: Boolean(rule && profile.appliesTo(rule)) && !bestPracticeOnly,
+                    mapped: true
+                };
+            }
+
+            // Fallback: Om vi inte hittar en regeln i vår databas, skapa en generisk rapport
+            // så att vi inte tappar bort felet. Omfattning avgörs av axe-taggarna.
+            return {
+                report: {
+                    ruleId: result.id,
                     wcagCriteria: 'Unknown',
                     en301549Criteria: 'Unknown',
                     dosLagenReference: 'Kräver manuell bedömning',
                     diggRisk: 'medium', // Default risk
                     eaaImpact: 'medium',
                     remediation: {
-                        description: violation.help,
-                        technicalGuidance: violation.description,
+                        description: result.help,
+                        technicalGuidance: result.description,
                         component: undefined
                     },
                     holmdigitalInsight: {
                         diggRisk: 'medium',
                         eaaImpact: 'medium',
-                        swedishInterpretation: violation.help,
+                        swedishInterpretation: result.help,
                         priorityRationale: 'Detta fel upptäcktes av scannern men saknar specifik mappning i HolmDigital-databasen.'
                     },
                     testability: {
@@ -227,15 +713,68 @@ export class RegulatoryScanner {
                         requiresManualCheck: false,
                         pseudoAutomation: false,
                         complexity: 'moderate'
-                    }
-                });
+                    },
+                    failingNodes
+                },
+                inScope: result.tags.some((tag: string) => profile.axeTags.includes(tag)),
+                mapped: false
+            };
+        };
+
+        for (const violation of axeResults.violations) {
+            const { report, inScope } = mapResult(violation);
+            (inScope ? reports : outOfScope).push(report);
+        }
+
+        // "incomplete": axe kunde inte avgöra elementen – bara regler som mappar direkt mot databasen
+        const needsReview: ScanReport[] = [];
+        for (const incomplete of axeResults.incomplete ?? []) {
+            const { report, inScope, mapped } = mapResult(incomplete, false);
+            if (!inScope || !mapped) continue;
+            const existing = needsReview.find(candidate => candidate.ruleId === report.ruleId);
+            if (existing) {
+                existing.failingNodes = [...(existing.failingNodes ?? []), ...(report.failingNodes ?? [])];
+            } else {
+                needsReview.push(report);
             }
         }
 
-        return reports;
+        // Godkända regler som bevis – bara regler som mappar direkt mot databasen
+        const passes: PassedRule[] = [];
+        for (const pass of axeResults.passes ?? []) {
+            const { report, inScope, mapped } = mapResult(pass, false);
+            if (!inScope || !mapped) continue;
+            const existing = passes.find(candidate => candidate.ruleId === report.ruleId);
+            if (existing) {
+                existing.nodes += pass.nodes.length;
+            } else {
+                passes.push({ ruleId: report.ruleId, wcagCriteria: report.wcagCriteria, en301549Criteria: report.en301549Criteria, nodes: pass.nodes.length });
+            }
+        }
+
+        return { reports, outOfScope, needsReview, passes };
     }
 
-    private generateResultPackage(reports: RegulatoryReport[]): ScanResult {
+    /**
+     * Tar bort avstängda regler och applicerar risknivå-överskrivningar från options.rules
+     */
+    private applyRuleOverrides(reports: ScanReport[]): ScanReport[] {
+        const { disable = [], severity = {} } = this.options.rules ?? {};
+
+        return reports
+            .filter(report => !disable.includes(report.ruleId))
+            .map(report => {
+                const diggRisk = severity[report.ruleId];
+                if (!diggRisk) return report;
+                return {
+                    ...report,
+                    diggRisk,
+                    holmdigitalInsight: { ...report.holmdigitalInsight, diggRisk }
+                };
+            });
+    }
+
+    private generateResultPackage(url: string, reports: ScanReport[], outOfScope: ScanReport[]): ScanResult {
         const stats = {
             critical: reports.filter(r => r.holmdigitalInsight.diggRisk === 'critical').length,
             high: reports.filter(r => r.holmdigitalInsight.diggRisk === 'high').length,
@@ -244,27 +783,21 @@ export class RegulatoryScanner {
             total: reports.length
         };
 
-        // Justerat score-system för att match Lighthouse strängare nivaer
-        // Varje fel straffas hårdare
-        const weightedScore = (
-            (stats.critical * 25) + // Critical violations are severe
-            (stats.high * 15) +     // High risk affects usability significantly
-            (stats.medium * 5) +    // Medium annoyance
-            (stats.low * 1)         // Minor issues
-        );
-
-        // Score 100 är bäst, drar av poäng för fel
-        const score = Math.max(0, 100 - weightedScore);
+        // Score 100 är bäst; modellen avgör avdraget per regel. outOfScope påverkar aldrig score.
+        const { score, breakdown } = scoreReports(reports, this.options.scoring ?? FIXED_SCORING);
 
-        // Strict Compliance: Pass requires 0 violations
+        // Strict Compliance: Pass requires 0 violations inom vald standard (outOfScope räknas inte)
         const complianceStatus = stats.total === 0 ? 'PASS' : 'FAIL';
 
         return {
-            url: this.options.url,
+            url,
             timestamp: new Date().toISOString(),
+            standard: this.options.standard ?? 'dos-lagen',
             reports,
+            outOfScope,
             stats,
             score,
+            scoreBreakdown: breakdown,
             complianceStatus
         };
     }
@@ -276,6 +809,28 @@ export class RegulatoryScanner {
         if (this.browser) {
             await this.browser.close();
             this.browser = null;
+            this.auth = null;
         }
     }
 }
+
+/**
+ * Scanna en HTML-sträng (t.ex. fixtures eller byggoutput) utan webbserver
+ */
+export async function scanHtml(
+    html: string,
+    options: Omit<ScannerOptions, 'url'> & { baseUrl?: string } = {}
+): Promise<ScanResult> {
+    const { baseUrl, ...scannerOptions } = options;
+    const scanner = new RegulatoryScanner({ ...scannerOptions, url: baseUrl ?? 'about:blank' });
+    return await scanner.scanHtml(html, baseUrl);
+}
+
+function injectBaseHref(html: string, baseUrl: string): string {
+    const base = `<base href="${baseUrl.replace(/"/g, '&quot;')}">`;
+    // <head> med eller utan attribut, men inte <header>
+    if (/<head(\s[^>]*)?>/i.test(html)) {
+        return html.replace(/<head(\s[^>]*)?>/i, match => `${match}${base}`);
+    }
+    return base + html;
+}
@@ -0,0 +1,262 @@
+/**
+ * Rule Engine
+ * Egna regler som körs på VirtualDOMBuilder-trädet (inkl. öppna shadow roots) och
+ * fångar det axe missar i web components. Fynden slås ihop med axe-rapporterna.
+ */
+
+import { generateRegulatoryReport, getConvergenceRule } from '@holmdigital/standards';
+import type { VirtualNode } from './virtual-dom';
+import type { FailingNode, ScanReport } from './regulatory-scanner';
+import type { StandardProfile } from './standard-profiles';
+
+/**
+ * En regel som utvärderas per nod i det sammansatta trädet
+ */
+export interface VirtualRule {
+    id: string;              // Motorns egna regel-ID (kan stängas av via rules.disable)
+    ruleId: string;          // Regel i @holmdigital/standards som fyndet rapporteras mot
+    description?: string;
+    styles?: string[];       // Computed styles regeln behöver i VirtualNode.computedStyle
+    /** Returnerar ett felmeddelande om noden bryter mot regeln, annars null */
+    evaluate(node: VirtualNode, tree: VirtualTree): string | null;
+}
+
+export interface EngineFinding {
+    engineRuleId: string;
+    ruleId: string;
+    nodes: FailingNode[];
+}
+
+const SNIPPET_MAX_LENGTH = 250;
+
+/**
+ * Navigering i VirtualDOM-trädet. "Scope" är det trädområde (dokumentet eller en shadow root)
+ * där ID-referenser kan lösas upp.
+ */
+export class VirtualTree {
+    readonly root: VirtualNode;
+    private byId = new Map<string, VirtualNode>();
+
+    constructor(root: VirtualNode) {
+        this.root = root;
+        for (const node of this.nodes()) {
+            this.byId.set(node.nodeId, node);
+        }
+    }
+
+    /**
+     * Alla noder i dokumentordning, inklusive innehåll i shadow roots
+     */
+    *nodes(from: VirtualNode = this.root): Generator<VirtualNode> {
+        yield from;
+        for (const child of from.children) {
+            yield* this.nodes(child);
+        }
+    }
+
+    parent(node: VirtualNode): VirtualNode | undefined {
+        return node.parentId ? this.byId.get(node.parentId) : undefined;
+    }
+
+    /**
+     * Förfäder i det sammansatta trädet (korsar shadow-gränser), närmast först
+     */
+    ancestors(node: VirtualNode): VirtualNode[] {
+        const result: VirtualNode[] = [];
+        let current = this.parent(node);
+        while (current) {
+            result.push(current);
+            current = this.parent(current);
+        }
+        return result;
+    }
+
+    /**
+     * Närmaste shadow root, eller trädets rot för light DOM
+     */
+    scopeOf(node: VirtualNode): VirtualNode {
+        return this.ancestors(node).find(ancestor => ancestor.isShadowRoot) ?? this.root;
+    }
+
+    isInShadowRoot(node: VirtualNode): boolean {
+        return this.scopeOf(node) !== this.root;
+    }
+
+    /**
+     * Shadow root som hör till ett värdelement
+     */
+    shadowRootOf(host: VirtualNode): VirtualNode | undefined {
+        return host.children.find(child => child.isShadowRoot);
+    }
+
+    /**
+     * Element med id i samma scope (går inte ner i nästlade shadow roots)
+     */
+    findById(id: string, scope: VirtualNode): VirtualNode | undefined {
+        const search = (node: VirtualNode): VirtualNode | undefined => {
+            for (const child of node.children) {
+                if (child.isShadowRoot) continue;
+                if (child.attributes.id === id) return child;
+                const found = search(child);
+                if (found) return found;
+            }
+            return undefined;
+        };
+        if (scope === this.root && this.root.attributes.id === id) return this.root;
+        return search(scope);
+    }
+
+    /**
+     * Text som användaren ser: light DOM plus innehållet i elementets shadow root
+     */
+    composedText(node: VirtualNode): string {
+        const shadowText = this.shadowRootOf(node)?.textContent ?? '';
+        return `${node.textContent ?? ''} ${shadowText}`.replace(/\s+/g, ' ').trim();
+    }
+
+    /**
+     * Selector som går att använda med puppeteer; ">>>" markerar en shadow-gräns
+     */
+    selector(node: VirtualNode): string {
+        const segments: string[] = [];
+        let segment: string[] = [];
+        let current: VirtualNode | undefined = node;
+        let anchored = false;
+
+        while (current && current !== this.root) {
+            const parent: VirtualNode | undefined = this.parent(current);
+            if (current.isShadowRoot) {
+                segments.unshift(segment.join(' > '));
+                segment = [];
+                anchored = false;
+            } else if (current.attributes.id && /^[A-Za-z][\w-]*$/.test(current.attributes.id)) {
+                // Ett id är unikt inom sitt scope – resten av vägen dit behövs inte
+                segment.unshift(`#${current.attributes.id}`);
+                anchored = true;
+                current = this.scopeOf(current);
+                continue;
+            } else {
+                const tagName = current.tagName;
+                const siblings = (parent?.children ?? []).filter(sibling => sibling.tagName === tagName);
+                segment.unshift(siblings.length > 1
+                    ? `${tagName}:nth-of-type(${siblings.indexOf(current) + 1})`
+                    : tagName);
+            }
+            current = parent;
+        }
+
+        if (!anchored) segment.unshift(this.root.tagName);
+        segments.unshift(segment.join(' > '));
+        return segments.join(' >>> ');
+    }
+
+    /**
+     * Starttaggen som HTML-utdrag (VirtualNode saknar outerHTML)
+     */
+    snippet(node: VirtualNode): string {
+        const attributes = Object.entries(node.attributes)
+            .map(([name, value]) => (value === '' ? name : `${name}="${value.replace(/"/g, '&quot;')}"`))
+            .join(' ');
+        const html = `<${node.tagName}${attributes ? ` ${attributes}` : ''}>`;
+        return html.length > SNIPPET_MAX_LENGTH ? `${html.slice(0, SNIPPET_MAX_LENGTH - 4)}...>` : html;
+    }
+}
+
+export class RuleEngine {
+    private rules: VirtualRule[] = [];
+
+    constructor(rules: VirtualRule[] = []) {
+        rules.forEach(rule => this.register(rule));
+    }
+
+    /**
+     * Registrerar en regel. ruleId måste finnas i @holmdigital/standards.
+     */
+    register(rule: VirtualRule): this {
+        if (!getConvergenceRule(rule.ruleId)) {
+            throw new Error(`Virtual rule '${rule.id}' references unknown ruleId '${rule.ruleId}'`);
+        }
+        if (this.rules.some(existing => existing.id === rule.id)) {
+            throw new Error(`Virtual rule '${rule.id}' is already registered`);
+        }
+        this.rules.push(rule);
+        return this;
+    }
+
+    /**
+     * Computed styles som VirtualDOMBuilder måste samla in för reglerna
+     */
+    get requiredStyles(): string[] {
+        return Array.from(new Set(this.rules.flatMap(rule => rule.styles ?? [])));
+    }
+
+    run(root: VirtualNode, disabled: string[] = []): EngineFinding[] {
+        const tree = new VirtualTree(root);
+        const findings: EngineFinding[] = [];
+
+        for (const rule of this.rules) {
+            if (disabled.includes(rule.id)) continue;
+
+            const nodes: FailingNode[] = [];
+            for (const node of tree.nodes()) {
+                if (node.isShadowRoot) continue;
+                const message = rule.evaluate(node, tree);
+                if (message) {
+                    nodes.push({ html: tree.snippet(node), target: tree.selector(node), failureSummary: message });
+                }
+            }
+
+            if (nodes.length > 0) {
+                findings.push({ engineRuleId: rule.id, ruleId: rule.ruleId, nodes });
+            }
+        }
+
+        return findings;
+    }
+}
+
+/**
+ * Lägger in motorns fynd i rapporterna. Finns regeln redan (från axe) läggs bara nya element till.
+ */
+export function mergeFindings(
+    reports: ScanReport[],
+    outOfScope: ScanReport[],
+    findings: EngineFinding[],
+    profile: StandardProfile,
+    lang: string
+): { reports: ScanReport[]; outOfScope: ScanReport[] } {
+    const merged = { reports: [...reports], outOfScope: [...outOfScope] };
+
+    for (const finding of findings) {
+        const rule = getConvergenceRule(finding.ruleId, lang);
+        const report = generateRegulatoryReport(finding.ruleId, lang);
+        if (!rule || !report) continue;
+
+        const list = profile.appliesTo(rule) ? merged.reports : merged.outOfScope;
+        const index = list.findIndex(existing => existing.ruleId === finding.ruleId);
+
+        if (index === -1) {
+            list.push({
+                ...report,
+                holmdigitalInsight: {
+                    ...report.holmdigitalInsight,
+                    reasoning: finding.nodes[0].failureSummary
+                },
+                failingNodes: finding.nodes
+            });
+            continue;
+        }
+
+        const existing = list[index];
+        const knownTargets = new Set((existing.failingNodes ?? []).map(node => node.target));
+        list[index] = {
+            ...existing,
+            failingNodes: [
+                ...(existing.failingNodes ?? []),
+                ...finding.nodes.filter(node => !knownTargets.has(node.target))
+            ]
+        };
+    }
+
+    return merged;
+}
@@ -0,0 +1,204 @@
+/**
+ * Scoring
+ * Poängmodeller för ScanResult.score. En modell räknar fram avdraget för varje regel;
+ * summan dras från 100 och redovisas per regel och per WCAG-princip.
+ */
+
+import { getConvergenceRule } from '@holmdigital/standards';
+import type { DiggRisk, EAAImpact, WCAGLevel } from '@holmdigital/standards';
+import type { ScanReport } from './regulatory-scanner';
+
+export type WcagPrinciple = 'perceivable' | 'operable' | 'understandable' | 'robust';
+
+export const WCAG_PRINCIPLES: WcagPrinciple[] = ['perceivable', 'operable', 'understandable', 'robust'];
+
+/**
+ * En faktor som påverkade avdraget, t.ex. { name: 'nodes', value: 2.7, detail: '50' }
+ */
+export interface ScoreFactor {
+    name: string;
+    value: number;
+    detail?: string;
+}
+
+/**
+ * Avdraget för en regel. `points` är produkten av faktorerna, avrundad till en decimal.
+ */
+export interface ScoreDeduction {
+    ruleId: string;
+    principle?: WcagPrinciple; // Saknas för regler utan WCAG-kriterium
+    points: number;
+    factors: ScoreFactor[];
+    url?: string;              // Sidan avdraget gäller (bara i en sajts sammanställning)
+}
+
+export interface ScoreBreakdown {
+    model: string;
+    /** Summan av avdragen – score är 100 minus detta, som lägst 0 */
+    totalDeduction: number;
+    deductions: ScoreDeduction[];
+    /** Delpoäng per princip: 100 minus principens avdrag */
+    principles: Record<WcagPrinciple, number>;
+}
+
+/**
+ * En poängmodell. Egna modeller kan skickas till scannern (options.scoring) eller anges i konfigurationen.
+ */
+export interface ScoringModel {
+    name: string;
+    /** Faktorerna för en regel på en sida; avdraget är deras produkt */
+    factors(report: ScanReport): ScoreFactor[];
+}
+
+export interface WeightedScoringOptions {
+    /** Grundavdrag per risknivå (default 25/15/5/1) */
+    risk?: Partial<Record<DiggRisk, number>>;
+    /** Hur antalet fallerande element påverkar: 'log' = 1 + log10(antal), 'linear' = antal (default 'log') */
+    nodes?: 'none' | 'log' | 'linear';
+    /** Faktor per WCAG-nivå (default A 1, AA 0.8, AAA 0.5) */
+    level?: Partial<Record<WCAGLevel, number>>;
+    /** Faktor per EAA-påverkan (default none 0.5 … critical 1.5) */
+    eaaImpact?: Partial<Record<EAAImpact, number>>;
+    /** Tak för avdraget från en enskild regel (default 40) */
+    maxPerRule?: number;
+}
+
+export const DEFAULT_RISK_WEIGHTS: Record<DiggRisk, number> = { critical: 25, high: 15, medium: 5, low: 1 };
+const DEFAULT_LEVEL_WEIGHTS: Record<WCAGLevel, number> = { A: 1, AA: 0.8, AAA: 0.5 };
+const DEFAULT_EAA_WEIGHTS: Record<EAAImpact, number> = { none: 0.5, low: 0.75, medium: 1, high: 1.25, critical: 1.5 };
+const DEFAULT_MAX_PER_RULE = 40;
+
+const PRINCIPLES_BY_NUMBER: Record<string, WcagPrinciple> = { '1': 'perceivable', '2': 'operable', '3': 'understandable', '4': 'robust' };
+
+export function principleOf(wcagCriteria: string): WcagPrinciple | undefined {
+    return PRINCIPLES_BY_NUMBER[wcagCriteria.split('.')[0]];
+}
+
+const riskFactor = (report: ScanReport, weights: Record<DiggRisk, number>): ScoreFactor => {
+    const risk = report.holmdigitalInsight.diggRisk;
+    return { name: 'risk', value: weights[risk], detail: risk };
+};
+
+/**
+ * Fast avdrag per regel och risknivå, oavsett antal element (motorns ursprungliga modell)
+ */
+export const FIXED_SCORING: ScoringModel = {
+    name: 'fixed',
+    factors: report => [riskFactor(report, DEFAULT_RISK_WEIGHTS)]
+};
+
+/**
+ * Avdrag som viktas med antalet fallerande element, WCAG-nivå och EAA-påverkan
+ */
+export function createWeightedScoring(options: WeightedScoringOptions = {}): ScoringModel {
+    const risk = { ...DEFAULT_RISK_WEIGHTS, ...options.risk };
+    const level = { ...DEFAULT_LEVEL_WEIGHTS, ...options.level };
+    const eaaImpact = { ...DEFAULT_EAA_WEIGHTS, ...options.eaaImpact };
+    const nodes = options.nodes ?? 'log';
+    const maxPerRule = options.maxPerRule ?? DEFAULT_MAX_PER_RULE;
+
+    return {
+        name: 'weighted',
+        factors: report => {
+            const factors = [riskFactor(report, risk)];
+
+            // Regler utan element (t.ex. sidnivåregler) räknas som ett
+            const count = Math.max(1, report.failingNodes?.length ?? 0);
+            if (nodes !== 'none') {
+                factors.push({ name: 'nodes', value: nodes === 'linear' ? count : round(1 + Math.log10(count), 2), detail: String(count) });
+            }
+
+            const wcagLevel = getConvergenceRule(report.ruleId)?.wcagLevel;
+            if (wcagLevel) {
+                factors.push({ name: 'level', value: level[wcagLevel], detail: wcagLevel });
+            }
+            factors.push({ name: 'eaaImpact', value: eaaImpact[report.eaaImpact] ?? 1, detail: report.eaaImpact });
+
+            const points = factors.reduce((product, factor) => product * factor.value, 1);
+            if (points > maxPerRule) {
+                factors.push({ name: 'cap', value: maxPerRule / points, detail: String(maxPerRule) });
+            }
+            return factors;
+        }
+    };
+}
+
+export const SCORING_MODELS: Record<string, ScoringModel> = {
+    fixed: FIXED_SCORING,
+    weighted: createWeightedScoring()
+};
+
+export function getScoringModel(name: string): ScoringModel {
+    const model = SCORING_MODELS[name];
+    if (!model) {
+        throw new Error(`Unknown scoring model '${name}' (valid: ${Object.keys(SCORING_MODELS).join(', ')})`);
+    }
+    return model;
+}
+
+/**
+ * Faktorerna som text, t.ex. "risk critical 25 × nodes 50 2.7 × level A 1"
+ */
+export function formatScoreFactors(factors: ScoreFactor[]): string {
+    return factors.map(factor => `${factor.name}${factor.detail ? ` ${factor.detail}` : ''} ${Number(factor.value.toPrecision(3))}`).join(' × ');
+}
+
+function round(value: number, decimals: number = 1): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+function principleScores(deductions: ScoreDeduction[]): Record<WcagPrinciple, number> {
+    return Object.fromEntries(WCAG_PRINCIPLES.map(principle => [
+        principle,
+        Math.max(0, round(100 - deductions
+            .filter(deduction => deduction.principle === principle)
+            .reduce((sum, deduction) => sum + deduction.points, 0)))
+    ])) as Record<WcagPrinciple, number>;
+}
+
+/**
+ * Räknar fram score och förklaringen för en sidas brister (bara reglerna inom standarden)
+ */
+export function scoreReports(reports: ScanReport[], model: ScoringModel = FIXED_SCORING): { score: number; breakdown: ScoreBreakdown } {
+    const deductions = reports.map(report => {
+        const factors = model.factors(report);
+        const principle = principleOf(report.wcagCriteria);
+        return {
+            ruleId: report.ruleId,
+            ...(principle ? { principle } : {}),
+            points: round(factors.reduce((product, factor) => product * factor.value, 1)),
+            factors
+        };
+    });
+    const totalDeduction = round(deductions.reduce((sum, deduction) => sum + deduction.points, 0));
+
+    return {
+        score: Math.max(0, Math.round(100 - totalDeduction)),
+        breakdown: { model: model.name, totalDeduction, deductions, principles: principleScores(deductions) }
+    };
+}
+
+/**
+ * Sammanställning för flera sidor. Sajtens score är medelvärdet av sidornas, så varje
+ * avdrag räknas om till sin andel av medelvärdet och delpoängen blir sidornas medelvärde.
+ */
+export function aggregateScoreBreakdowns(pages: Array<{ url: string; scoreBreakdown?: ScoreBreakdown }>): ScoreBreakdown | undefined {
+    const scored = pages.filter(page => page.scoreBreakdown);
+    if (scored.length === 0 || scored.length !== pages.length) return undefined;
+
+    const deductions = scored.flatMap(page => page.scoreBreakdown!.deductions.map(deduction => ({
+        ...deduction,
+        points: round(deduction.points / pages.length, 2),
+        url: page.url
+    })));
+    return {
+        model: scored[0].scoreBreakdown!.model,
+        totalDeduction: round(deductions.reduce((sum, deduction) => sum + deduction.points, 0)),
+        deductions,
+        principles: Object.fromEntries(WCAG_PRINCIPLES.map(principle => [
+            principle,
+            round(scored.reduce((sum, page) => sum + page.scoreBreakdown!.principles[principle], 0) / scored.length)
+        ])) as Record<WcagPrinciple, number>
+    };
+}
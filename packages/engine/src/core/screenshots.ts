@@ -0,0 +1,171 @@
+/**
+ * Screenshots
+ * Beskurna bilder av varje fallerande element med en markerad ram, plus en helsidesbild
+ * med numrerade markörer. Bilderna sparas som filer och refereras från ScanResult.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Page } from 'puppeteer';
+import type { FailingNode, ScanReport, ScanResult } from './regulatory-scanner';
+import { installPageHelpers, PageRect } from './page-helpers';
+
+export interface ScreenshotOptions {
+    dir: string;          // Katalog där bilderna sparas (skapas vid behov)
+    maxNodes?: number;    // Max antal elementbilder per sida (default 50)
+    padding?: number;     // Marginal runt elementet i beskärningen, CSS px (default 16)
+    fullPage?: boolean;   // Helsidesbild med numrerade markörer (default på)
+}
+
+const DEFAULT_MAX_NODES = 50;
+const DEFAULT_PADDING = 16;
+// Väldigt stora element (t.ex. <body> för region) beskärs till en rimlig bild
+const MAX_CROP = { width: 1600, height: 1200 };
+const FULL_PAGE_QUALITY = 70;
+const OVERLAY_ID = '__hd-screenshot-overlay';
+const OUTLINE_COLOR = '#dc2626';
+
+interface Marker {
+    marker: number;
+    rect: PageRect;
+}
+
+/**
+ * Ritar ramar och nummer i ett eget lager över sidan. Alla ramar är dolda tills showMarkers anropas.
+ */
+function drawMarkers(markers: Marker[], overlayId: string, color: string): void {
+    document.getElementById(overlayId)?.remove();
+    const overlay = document.createElement('div');
+    overlay.id = overlayId;
+    overlay.setAttribute('aria-hidden', 'true');
+    overlay.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;z-index:2147483647;pointer-events:none;';
+
+    for (const { marker, rect } of markers) {
+        const box = document.createElement('div');
+        box.dataset.marker = String(marker);
+        box.style.cssText = `position:absolute;box-sizing:border-box;display:none;left:${rect.x - 3}px;top:${rect.y - 3}px;`
+            + `width:${rect.width + 6}px;height:${rect.height + 6}px;border:3px solid ${color};box-shadow:0 0 0 2px #ffffff;`;
+
+        const label = document.createElement('span');
+        label.textContent = String(marker);
+        label.style.cssText = `position:absolute;top:-3px;left:-3px;transform:translateY(-100%);background:${color};color:#ffffff;`
+            + 'font:bold 12px/1 system-ui,sans-serif;padding:3px 5px;border-radius:3px 3px 0 0;';
+        box.appendChild(label);
+        overlay.appendChild(box);
+    }
+    document.documentElement.appendChild(overlay);
+}
+
+/**
+ * Visar en markör (elementbilden) eller alla (helsidesbilden)
+ */
+function showMarkers(overlayId: string, marker: number | null): void {
+    document.getElementById(overlayId)?.querySelectorAll<HTMLElement>('[data-marker]').forEach(box => {
+        box.style.display = marker === null || box.dataset.marker === String(marker) ? 'block' : 'none';
+    });
+}
+
+function slugify(value: string, maxLength: number): string {
+    return value.toLowerCase().replace(/^[a-z]+:\/+/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, maxLength) || 'page';
+}
+
+/**
+ * Dokumentrektangeln för ett fallerande element, eller null om det inte hittas eller inte syns
+ */
+async function resolveRect(page: Page, target: string): Promise<PageRect | null> {
+    try {
+        const handle = await page.$(target);
+        if (!handle) return null;
+        try {
+            return await handle.evaluate(element => window.__hd.isVisible(element) ? window.__hd.documentRect(element) : null);
+        } finally {
+            await handle.dispose();
+        }
+    } catch {
+        // axe-selectors för shadow DOM är inte alltid giltiga CSS-selectors
+        return null;
+    }
+}
+
+/**
+ * Tar elementbilder och helsidesbild för sidan som är laddad i fliken.
+ * `name` är sidans katalog under options.dir. Returnerar resultatet med sökvägarna ifyllda.
+ */
+export async function captureScreenshots(page: Page, result: ScanResult, options: ScreenshotOptions, name: string): Promise<ScanResult> {
+    const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+    const padding = options.padding ?? DEFAULT_PADDING;
+    const dir = path.join(options.dir, name);
+    await fs.mkdir(dir, { recursive: true });
+    await installPageHelpers(page);
+
+    // Tangentbordskontrollen lämnar fokus och scroll där den slutade
+    await page.evaluate(() => {
+        (document.activeElement as HTMLElement | null)?.blur?.();
+        window.scrollTo(0, 0);
+    });
+    const documentSize = await page.evaluate(() => ({
+        width: document.documentElement.scrollWidth,
+        height: document.documentElement.scrollHeight
+    }));
+
+    // Numrera elementen i rapportordning; element i iframes och dolda element hoppas över
+    const markers: Marker[] = [];
+    const reports: ScanReport[] = [];
+    for (const report of result.reports) {
+        const failingNodes: FailingNode[] = [];
+        for (const node of report.failingNodes ?? []) {
+            const rect = !node.frame && markers.length < maxNodes ? await resolveRect(page, node.target) : null;
+            if (!rect) {
+                failingNodes.push(node);
+                continue;
+            }
+            const marker = markers.length + 1;
+            markers.push({ marker, rect });
+            failingNodes.push({ ...node, marker, screenshot: path.join(dir, `${marker}-${slugify(report.ruleId, 40)}.png`) });
+        }
+        reports.push(report.failingNodes ? { ...report, failingNodes } : report);
+    }
+
+    try {
+        await page.evaluate(drawMarkers, markers, OVERLAY_ID, OUTLINE_COLOR);
+
+        for (const report of reports) {
+            for (const node of report.failingNodes ?? []) {
+                if (!node.screenshot || !node.marker) continue;
+                const { rect } = markers[node.marker - 1];
+                const x = Math.max(0, rect.x - padding);
+                const y = Math.max(0, rect.y - padding - 20); // Plats för numret ovanför ramen
+                const clip = {
+                    x,
+                    y,
+                    width: Math.min(rect.width + padding * 2, MAX_CROP.width, documentSize.width - x),
+                    height: Math.min(rect.height + padding * 2 + 20, MAX_CROP.height, documentSize.height - y)
+                };
+                if (clip.width < 1 || clip.height < 1) {
+                    delete node.screenshot;
+                    continue;
+                }
+                await page.evaluate(showMarkers, OVERLAY_ID, node.marker);
+                await page.screenshot({ path: node.screenshot, type: 'png', clip, captureBeyondViewport: true });
+            }
+        }
+
+        let screenshot: string | undefined;
+        if (options.fullPage !== false) {
+            screenshot = path.join(dir, 'page.jpg');
+            await page.evaluate(showMarkers, OVERLAY_ID, null);
+            await page.screenshot({ path: screenshot, type: 'jpeg', quality: FULL_PAGE_QUALITY, fullPage: true });
+        }
+
+        return { ...result, reports, ...(screenshot ? { screenshot } : {}) };
+    } finally {
+        await page.evaluate(overlayId => document.getElementById(overlayId)?.remove(), OVERLAY_ID);
+    }
+}
+
+/**
+ * Katalognamn för en sida: löpnummer + URL, så att flera scannade sidor inte krockar
+ */
+export function screenshotDirName(index: number, url: string): string {
+    return `${String(index).padStart(3, '0')}-${slugify(url, 60)}`;
+}
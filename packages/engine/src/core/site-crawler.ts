@@ -0,0 +1,391 @@
+/**
+ * Site Crawler
+ * Hittar sidor att scanna via sitemap.xml, robots.txt och interna länkar (same-origin)
+ */
+
+import type { Page } from 'puppeteer';
+import type { DiggRisk } from '@holmdigital/standards';
+import type { ScanResult } from './regulatory-scanner';
+import { ScoreBreakdown, aggregateScoreBreakdowns } from './scoring';
+
+export interface CrawlOptions {
+    maxDepth?: number;          // Hur många länk-steg från start-URL:en vi följer
+    maxPages?: number;          // Max antal sidor som scannas
+    include?: Array<string | RegExp>; // Endast URL:er som matchar (glob med * eller RegExp)
+    exclude?: Array<string | RegExp>; // URL:er som aldrig scannas
+    useSitemap?: boolean;       // Läs sitemap.xml (och Sitemap:-rader i robots.txt)
+    respectRobotsTxt?: boolean; // Följ Disallow/Allow i robots.txt
+    recurringMinPages?: number; // Antal sidor en regel måste fallera på för att räknas som återkommande
+}
+
+export interface CrawlTarget {
+    url: string;
+    depth: number;
+}
+
+export interface RecurringViolation {
+    ruleId: string;
+    wcagCriteria: string;
+    diggRisk: DiggRisk;
+    pageCount: number;
+    nodeCount: number;
+    urls: string[];
+}
+
+export interface SiteScanResult {
+    rootUrl: string;
+    timestamp: string;
+    pages: ScanResult[];
+    failedPages: Array<{ url: string; error: string }>;
+    stats: ScanResult['stats'];
+    score: number;
+    /** Sidornas avdrag och delpoäng sammanställda (saknas om någon sida saknar förklaring) */
+    scoreBreakdown?: ScoreBreakdown;
+    complianceStatus: 'PASS' | 'FAIL';
+    recurringViolations: RecurringViolation[];
+}
+
+const USER_AGENT_TOKEN = 'hd-a11y-scan';
+
+// Filändelser som aldrig är HTML-sidor
+const NON_HTML_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|zip|gz|rar|jpe?g|png|gif|svg|webp|ico|mp[34]|webm|avi|mov|css|js|json|xml|txt)$/i;
+
+/**
+ * Minimal robots.txt-tolkning: grupper för '*' och vår egen user-agent,
+ * längsta matchande regel vinner (Allow vinner vid lika längd).
+ */
+class RobotsRules {
+    private rules: Array<{ allow: boolean; path: string }> = [];
+    public sitemaps: string[] = [];
+
+    constructor(content: string = '') {
+        let groupAgents: string[] = [];
+        let inRules = false;
+        let applies = false;
+
+        for (const rawLine of content.split(/\r?\n/)) {
+            const line = rawLine.replace(/#.*$/, '').trim();
+            if (!line) continue;
+
+            const separator = line.indexOf(':');
+            if (separator === -1) continue;
+            const field = line.slice(0, separator).trim().toLowerCase();
+            const value = line.slice(separator + 1).trim();
+
+            if (field === 'sitemap') {
+                this.sitemaps.push(value);
+                continue;
+            }
+
+            if (field === 'user-agent') {
+                // En ny grupp börjar när user-agent följer efter regler
+                if (inRules) {
+                    groupAgents = [];
+                    inRules = false;
+                }
+                groupAgents.push(value.toLowerCase());
+                applies = groupAgents.some(agent => agent === '*' || USER_AGENT_TOKEN.startsWith(agent));
+                continue;
+            }
+
+            if (field === 'allow' || field === 'disallow') {
+                inRules = true;
+                if (applies && value) {
+                    this.rules.push({ allow: field === 'allow', path: value });
+                }
+            }
+        }
+    }
+
+    isAllowed(url: string): boolean {
+        const { pathname, search } = new URL(url);
+        const path = pathname + search;
+        let match: { allow: boolean; path: string } | null = null;
+
+        for (const rule of this.rules) {
+            if (!robotsPatternMatches(rule.path, path)) continue;
+            if (!match || rule.path.length > match.path.length ||
+                (rule.path.length === match.path.length && rule.allow)) {
+                match = rule;
+            }
+        }
+
+        return match ? match.allow : true;
+    }
+}
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const source = (anchored ? pattern.slice(0, -1) : pattern)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Glob-mönster (`*` = valfri sträng) matchas mot hela URL:en,
+ * mönster som börjar med '/' matchas mot sökvägen.
+ */
+function matchesPattern(url: string, pattern: string | RegExp): boolean {
+    if (pattern instanceof RegExp) return pattern.test(url);
+
+    const target = pattern.startsWith('/') ? new URL(url).pathname : url;
+    const source = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}$`).test(target);
+}
+
+/**
+ * Normaliserar en URL för dubblettkontroll (tar bort hash och avslutande snedstreck)
+ */
+function normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    if (parsed.pathname !== '/' && parsed.pathname.endsWith('/')) {
+        parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return parsed.href;
+}
+
+export class SiteCrawler {
+    private startUrl: URL;
+    private options: Required<Omit<CrawlOptions, 'include' | 'exclude'>> & Pick<CrawlOptions, 'include' | 'exclude'>;
+    private robots: RobotsRules = new RobotsRules();
+    private queue: CrawlTarget[] = [];
+    private seen = new Set<string>();
+    private dispatched = 0;
+    private log: (message: string) => void;
+    private requestHeaders: (url: string) => Record<string, string>;
+
+    constructor(
+        startUrl: string,
+        options: CrawlOptions = {},
+        log: (message: string) => void = () => { },
+        requestHeaders: (url: string) => Record<string, string> = () => ({}) // T.ex. cookies från inloggning
+    ) {
+        this.startUrl = new URL(startUrl);
+        this.options = {
+            maxDepth: 2,
+            maxPages: 50,
+            useSitemap: true,
+            respectRobotsTxt: true,
+            recurringMinPages: 2,
+            ...options
+        };
+        this.log = log;
+        this.requestHeaders = requestHeaders;
+    }
+
+    /**
+     * Läser robots.txt och sitemap.xml och lägger start-URL:en först i kön
+     */
+    async discover(): Promise<void> {
+        this.enqueue(this.startUrl.href, 0, true);
+
+        const robotsTxt = await this.fetchText(new URL('/robots.txt', this.startUrl).href);
+        if (robotsTxt !== null) {
+            this.robots = new RobotsRules(robotsTxt);
+        }
+
+        if (!this.options.useSitemap) return;
+
+        const sitemapUrls = this.robots.sitemaps.length > 0
+            ? this.robots.sitemaps
+            : [new URL('/sitemap.xml', this.startUrl).href];
+
+        const pageUrls = await this.readSitemaps(sitemapUrls);
+        if (pageUrls.length > 0) {
+            this.log(`Sitemap: found ${pageUrls.length} URLs`);
+        }
+        pageUrls.forEach(url => this.enqueue(url, 1));
+    }
+
+    /**
+     * Nästa sida att scanna, eller null när kön är tom eller maxPages är nådd
+     */
+    next(): CrawlTarget | null {
+        if (this.dispatched >= this.options.maxPages) return null;
+        const target = this.queue.shift();
+        if (!target) return null;
+        this.dispatched++;
+        return target;
+    }
+
+    /**
+     * Registrerar länkar som hittats på en scannad sida
+     */
+    addLinks(links: string[], depth: number) {
+        if (depth > this.options.maxDepth) return;
+        links.forEach(link => this.enqueue(link, depth));
+    }
+
+    /**
+     * Markerar en URL som besökt (t.ex. slutadressen efter en redirect)
+     */
+    markVisited(url: string) {
+        try {
+            this.seen.add(normalizeUrl(url));
+        } catch {
+            // Ogiltig URL (t.ex. about:blank) – ignorera
+        }
+    }
+
+    get recurringMinPages(): number {
+        return this.options.recurringMinPages;
+    }
+
+    /**
+     * Hämtar alla länkar (href) från en renderad sida
+     */
+    async extractLinks(page: Page): Promise<string[]> {
+        return await page.evaluate(() =>
+            Array.from(document.querySelectorAll('a[href]'))
+                .map(anchor => (anchor as HTMLAnchorElement).href)
+                .filter(Boolean)
+        );
+    }
+
+    isAllowed(url: string): boolean {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return false;
+        }
+
+        if (parsed.origin !== this.startUrl.origin) return false;
+        if (NON_HTML_EXTENSIONS.test(parsed.pathname)) return false;
+
+        const { include, exclude } = this.options;
+        if (include && include.length > 0 && !include.some(p => matchesPattern(parsed.href, p))) return false;
+        if (exclude && exclude.some(p => matchesPattern(parsed.href, p))) return false;
+
+        if (this.options.respectRobotsTxt && !this.robots.isAllowed(parsed.href)) return false;
+
+        return true;
+    }
+
+    private enqueue(url: string, depth: number, force: boolean = false) {
+        let normalized: string;
+        try {
+            normalized = normalizeUrl(url);
+        } catch {
+            return;
+        }
+        if (this.seen.has(normalized)) return;
+        // Start-URL:en scannas alltid, även om include/exclude inte matchar
+        if (!force && !this.isAllowed(normalized)) return;
+
+        this.seen.add(normalized);
+        this.queue.push({ url: normalized, depth });
+    }
+
+    private async readSitemaps(urls: string[], nesting: number = 0): Promise<string[]> {
+        const pageUrls: string[] = [];
+
+        for (const sitemapUrl of urls) {
+            const xml = await this.fetchText(sitemapUrl);
+            if (!xml) continue;
+
+            const locations = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi))
+                .map(match => decodeXmlEntities(match[1]));
+
+            // Sitemap-index pekar på fler sitemaps – följ max två nivåer
+            if (/<sitemapindex[\s>]/i.test(xml)) {
+                if (nesting < 2) {
+                    pageUrls.push(...await this.readSitemaps(locations, nesting + 1));
+                }
+            } else {
+                pageUrls.push(...locations);
+            }
+        }
+
+        return pageUrls;
+    }
+
+    private async fetchText(url: string): Promise<string | null> {
+        try {
+            const response = await fetch(url, {
+                headers: { ...this.requestHeaders(url), 'User-Agent': USER_AGENT_TOKEN },
+                signal: AbortSignal.timeout(10000)
+            });
+            if (!response.ok) return null;
+            return await response.text();
+        } catch {
+            this.log(`Could not fetch ${url}`);
+            return null;
+        }
+    }
+}
+
+function decodeXmlEntities(value: string): string {
+    return value
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'");
+}
+
+/**
+ * Slår ihop resultat från flera sidor till ett resultat för hela sajten
+ */
+export function aggregateScanResults(
+    rootUrl: string,
+    pages: ScanResult[],
+    failedPages: SiteScanResult['failedPages'] = [],
+    recurringMinPages: number = 2
+): SiteScanResult {
+    const stats = pages.reduce((sum, page) => ({
+        critical: sum.critical + page.stats.critical,
+        high: sum.high + page.stats.high,
+        medium: sum.medium + page.stats.medium,
+        low: sum.low + page.stats.low,
+        total: sum.total + page.stats.total
+    }), { critical: 0, high: 0, medium: 0, low: 0, total: 0 });
+
+    // Sajtens score är medelvärdet av sidornas score
+    const score = pages.length > 0
+        ? Math.round(pages.reduce((sum, page) => sum + page.score, 0) / pages.length)
+        : 0;
+
+    const byRule = new Map<string, RecurringViolation>();
+    for (const page of pages) {
+        for (const report of page.reports) {
+            const entry = byRule.get(report.ruleId) ?? {
+                ruleId: report.ruleId,
+                wcagCriteria: report.wcagCriteria,
+                diggRisk: report.holmdigitalInsight.diggRisk,
+                pageCount: 0,
+                nodeCount: 0,
+                urls: []
+            };
+            if (!entry.urls.includes(page.url)) {
+                entry.urls.push(page.url);
+                entry.pageCount++;
+            }
+            entry.nodeCount += report.failingNodes?.length ?? 0;
+            byRule.set(report.ruleId, entry);
+        }
+    }
+
+    const recurringViolations = Array.from(byRule.values())
+        .filter(entry => entry.pageCount >= recurringMinPages)
+        .sort((a, b) => b.pageCount - a.pageCount || b.nodeCount - a.nodeCount);
+
+    return {
+        rootUrl,
+        timestamp: new Date().toISOString(),
+        pages,
+        failedPages,
+        stats,
+        score,
+        scoreBreakdown: aggregateScoreBreakdowns(pages),
+        // Sidor som inte gick att scanna kan inte räknas som godkända
+        complianceStatus: pages.length === 0 || failedPages.length > 0 || pages.some(page => page.complianceStatus === 'FAIL') ? 'FAIL' : 'PASS',
+        recurringViolations
+    };
+}
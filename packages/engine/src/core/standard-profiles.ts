@@ -0,0 +1,53 @@
+/**
+ * Standard Profiles
+ * Definierar vilka axe-taggar som körs och vilka ConvergenceRules som ingår
+ * för respektive regelverk (WCAG, EN 301 549, DOS-lagen)
+ */
+
+import type { ConvergenceRule } from '@holmdigital/standards';
+
+export type ComplianceStandard = 'wcag' | 'en301549' | 'dos-lagen';
+
+export interface StandardProfile {
+    id: ComplianceStandard;
+    name: string;
+    /** axe-core taggar som skickas till runOnly */
+    axeTags: string[];
+    /** Avgör om en regel i standards-databasen omfattas av regelverket */
+    appliesTo(rule: ConvergenceRule): boolean;
+}
+
+const isLevelAOrAA = (rule: ConvergenceRule) => rule.wcagLevel === 'A' || rule.wcagLevel === 'AA';
+
+// EN 301 549 V3.2.1 refererar WCAG 2.1 – kriterier från 2.2 ingår inte än
+const isInEN301549 = (rule: ConvergenceRule) =>
+    isLevelAOrAA(rule) && rule.wcagVersion !== '2.2' && Boolean(rule.en301549Criteria);
+
+export const STANDARD_PROFILES: Record<ComplianceStandard, StandardProfile> = {
+    'wcag': {
+        id: 'wcag',
+        name: 'WCAG 2.2 AA',
+        axeTags: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'wcag22aa'],
+        appliesTo: isLevelAOrAA
+    },
+    'en301549': {
+        id: 'en301549',
+        name: 'EN 301 549 V3.2.1',
+        axeTags: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'],
+        appliesTo: isInEN301549
+    },
+    'dos-lagen': {
+        id: 'dos-lagen',
+        name: 'DOS-lagen (2018:1937)',
+        axeTags: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'],
+        appliesTo: rule => isInEN301549(rule) && rule.dosLagenApplies
+    }
+};
+
+export function isComplianceStandard(value: string): value is ComplianceStandard {
+    return Object.prototype.hasOwnProperty.call(STANDARD_PROFILES, value);
+}
+
+export function getStandardProfile(standard: ComplianceStandard = 'dos-lagen'): StandardProfile {
+    return STANDARD_PROFILES[standard];
+}
@@ -0,0 +1,85 @@
+/**
+ * Text Spacing
+ * Stresstest för WCAG 1.4.12: sidan får textavstånden från kriteriet och layouten jämförs
+ * före och efter. Text som svämmar över, klipps av eller överlappar grannar rapporteras.
+ */
+
+import type { Page } from 'puppeteer';
+import type { EngineFinding } from './rule-engine';
+import { probeLayout, settleLayout, newLayoutIssues, toFailingNodes, LayoutIssue } from './layout-probe';
+
+/**
+ * Avstånden användaren ska kunna sätta utan att innehåll går förlorat (WCAG 1.4.12)
+ */
+export const TEXT_SPACING_CSS = `
+* {
+    line-height: 1.5 !important;
+    letter-spacing: 0.12em !important;
+    word-spacing: 0.16em !important;
+}
+p {
+    margin-bottom: 2em !important;
+}
+`;
+
+declare global {
+    interface Window {
+        __hdTextSpacing?: CSSStyleSheet;
+    }
+}
+
+/**
+ * Lägger stilmallen i dokumentet och i alla öppna shadow roots (dokumentets stilar når inte in dit)
+ */
+function applyTextSpacing(css: string): void {
+    const sheet = new CSSStyleSheet();
+    sheet.replaceSync(css);
+
+    const roots: Array<Document | ShadowRoot> = [document];
+    for (const element of window.__hd.composedElements()) {
+        if (element.shadowRoot) roots.push(element.shadowRoot);
+    }
+    for (const root of roots) {
+        root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet];
+    }
+    window.__hdTextSpacing = sheet;
+}
+
+function resetTextSpacing(): void {
+    const sheet = window.__hdTextSpacing;
+    if (!sheet) return;
+
+    const roots: Array<Document | ShadowRoot> = [document];
+    for (const element of window.__hd.composedElements()) {
+        if (element.shadowRoot) roots.push(element.shadowRoot);
+    }
+    for (const root of roots) {
+        root.adoptedStyleSheets = root.adoptedStyleSheets.filter(adopted => adopted !== sheet);
+    }
+    window.__hdTextSpacing = undefined;
+}
+
+/**
+ * Kör stresstestet. Stilmallen tas bort efteråt.
+ */
+export async function analyzeTextSpacing(page: Page): Promise<EngineFinding[]> {
+    const baseline = await probeLayout(page);
+
+    let issues: LayoutIssue[];
+    try {
+        await page.evaluate(applyTextSpacing, TEXT_SPACING_CSS);
+        await settleLayout(page);
+        // Horisontell scroll täcks av reflow – här gäller förlorat innehåll
+        issues = newLayoutIssues(baseline, await probeLayout(page))
+            .filter(issue => issue.kind !== 'horizontal-scroll');
+    } finally {
+        await page.evaluate(resetTextSpacing);
+    }
+
+    if (issues.length === 0) return [];
+    return [{
+        engineRuleId: 'hd-text-spacing',
+        ruleId: 'text-spacing',
+        nodes: toFailingNodes(issues, 'With WCAG 1.4.12 text spacing (line-height 1.5, letter 0.12em, word 0.16em, paragraph 2em)')
+    }];
+}
@@ -0,0 +1,99 @@
+/**
+ * User Flows
+ * Deklarativa interaktioner (klick, text, tangenter, väntan) med scanning i valda steg,
+ * så att modaler, menyer, valideringsfel och flerstegsformulär också granskas.
+ */
+
+import type { Page } from 'puppeteer';
+import type { SiteScanResult } from './site-crawler';
+import type { Viewport } from './regulatory-scanner';
+import { expandEnv } from './auth';
+
+interface StepBase {
+    name?: string;
+    timeout?: number;
+}
+
+export type FlowStep =
+    | StepBase & { action: 'goto'; url: string }
+    | StepBase & { action: 'click'; selector: string }
+    | StepBase & { action: 'type'; selector: string; text: string; clear?: boolean }
+    | StepBase & { action: 'select'; selector: string; value: string }
+    | StepBase & { action: 'press'; key: string; selector?: string }
+    | StepBase & { action: 'waitFor'; selector: string; state?: 'visible' | 'hidden' }
+    | { action: 'scan'; name: string };
+
+export interface UserFlow {
+    name: string;
+    url?: string;                // Startsida (default: scannerns url)
+    viewport?: Viewport;
+    scanAfterEachStep?: boolean; // Scanna efter varje interaktion, inte bara vid "scan"-steg
+    steps: FlowStep[];
+}
+
+/**
+ * Resultatet av ett flöde: en ScanResult per scannat steg (ScanResult.step = stegets namn)
+ */
+export interface FlowScanResult extends SiteScanResult {
+    flow: string;
+}
+
+const DEFAULT_STEP_TIMEOUT = 10000;
+
+/**
+ * Läsbart namn på ett steg, för loggar, fel och automatiska scan-steg
+ */
+export function describeFlowStep(step: FlowStep, index: number): string {
+    if (step.action === 'scan') return step.name;
+    if (step.name) return step.name;
+
+    const detail = step.action === 'goto' ? step.url
+        : step.action === 'press' ? step.key
+            : step.selector;
+    return `${index + 1}. ${step.action} ${detail}`;
+}
+
+/**
+ * Utför en interaktion i fliken. "scan"-steg hanteras av scannern.
+ */
+export async function executeFlowStep(page: Page, step: Exclude<FlowStep, { action: 'scan' }>): Promise<void> {
+    const timeout = step.timeout ?? DEFAULT_STEP_TIMEOUT;
+
+    switch (step.action) {
+        case 'goto':
+            await page.goto(step.url, { waitUntil: 'domcontentloaded', timeout });
+            break;
+        case 'click':
+            await page.waitForSelector(step.selector, { visible: true, timeout });
+            await page.click(step.selector);
+            break;
+        case 'type': {
+            const field = await page.waitForSelector(step.selector, { visible: true, timeout });
+            if (!field) throw new Error(`'${step.selector}' not found`);
+            if (step.clear) {
+                await field.click({ count: 3 });
+                await page.keyboard.press('Backspace');
+            }
+            await field.type(expandEnv(step.text));
+            break;
+        }
+        case 'select':
+            await page.waitForSelector(step.selector, { timeout });
+            await page.select(step.selector, step.value);
+            break;
+        case 'press':
+            if (step.selector) {
+                await page.waitForSelector(step.selector, { timeout });
+                await page.focus(step.selector);
+            }
+            await page.keyboard.press(step.key as Parameters<Page['keyboard']['press']>[0]);
+            break;
+        case 'waitFor':
+            await page.waitForSelector(step.selector, {
+                visible: step.state !== 'hidden',
+                hidden: step.state === 'hidden',
+                timeout
+            });
+            break;
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Inbyggda VirtualDOM-regler
+ * Luckor som axe inte täcker i web components: ID-referenser över shadow-gränser
+ * och custom elements som agerar kontroller utan namn eller roll.
+ */
+
+import type { VirtualRule } from './rule-engine';
+
+const IDREF_ATTRIBUTES = ['aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-activedescendant', 'for'];
+
+// Roller där namnet måste komma från författaren eller innehållet
+const INTERACTIVE_ROLES = new Set([
+    'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem',
+    'menuitemcheckbox', 'menuitemradio', 'option', 'slider', 'spinbutton', 'combobox', 'textbox'
+]);
+
+function isCustomElement(tagName: string): boolean {
+    return tagName.includes('-');
+}
+
+/**
+ * aria-labelledby m.fl. löses bara upp inom samma dokument/shadow root.
+ * En referens till ett id på andra sidan gränsen fungerar inte i tillgänglighetsträdet.
+ */
+export const shadowIdrefBoundaryRule: VirtualRule = {
+    id: 'hd-shadow-idref-boundary',
+    ruleId: 'name-role-value',
+    description: 'ID references must resolve within the same shadow root',
+    evaluate(node, tree) {
+        const scope = tree.scopeOf(node);
+
+        for (const attribute of IDREF_ATTRIBUTES) {
+            const value = node.attributes[attribute];
+            if (!value) continue;
+
+            for (const id of value.trim().split(/\s+/)) {
+                if (tree.findById(id, scope)) continue;
+
+                const elsewhere = Array.from(tree.nodes()).some(candidate => candidate.attributes.id === id);
+                if (elsewhere) {
+                    return `${attribute}="${value}" references #${id}, which is in a different shadow tree and cannot be resolved`;
+                }
+            }
+        }
+        return null;
+    }
+};
+
+/**
+ * Custom element med interaktiv roll men utan tillgängligt namn (text i shadow root räknas)
+ */
+export const customElementNameRule: VirtualRule = {
+    id: 'hd-custom-element-name',
+    ruleId: 'name-role-value',
+    description: 'Custom elements with an interactive role must have an accessible name',
+    evaluate(node, tree) {
+        const role = node.attributes.role;
+        if (!isCustomElement(node.tagName) || !role || !INTERACTIVE_ROLES.has(role)) return null;
+
+        const hasName = Boolean(
+            node.attributes['aria-label']?.trim() ||
+            node.attributes['aria-labelledby']?.trim() ||
+            node.attributes.title?.trim() ||
+            tree.composedText(node)
+        );
+        return hasName ? null : `<${node.tagName} role="${role}"> has no accessible name`;
+    }
+};
+
+/**
+ * Fokuserbart värdelement (tabindex) utan roll – skärmläsare annonserar bara "grupp" eller ingenting
+ */
+export const focusableHostRoleRule: VirtualRule = {
+    id: 'hd-focusable-host-role',
+    ruleId: 'name-role-value',
+    description: 'Focusable custom elements must expose a role',
+    evaluate(node) {
+        if (!isCustomElement(node.tagName) || node.attributes.role) return null;
+
+        const tabindex = node.attributes.tabindex;
+        if (tabindex === undefined || Number(tabindex) < 0) return null;
+
+        return `<${node.tagName} tabindex="${tabindex}"> is focusable but has no role`;
+    }
+};
+
+export const BUILT_IN_VIRTUAL_RULES: VirtualRule[] = [
+    shadowIdrefBoundaryRule,
+    customElementNameRule,
+    focusableHostRoleRule
+];
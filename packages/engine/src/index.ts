@@ -1,3 +1,32 @@
 export * from './core/regulatory-scanner';
 export * from './core/virtual-dom';
+export * from './core/rule-engine';
+export * from './core/virtual-rules';
+export * from './core/contrast-analyzer';
+export * from './core/layout-probe';
+export * from './core/reflow-analyzer';
+export * from './core/text-spacing';
+export * from './core/keyboard-traversal';
+export * from './core/page-helpers';
+export * from './core/screenshots';
+export * from './core/frame-scanner';
+export * from './core/plugins';
+export * from './core/manual-results';
+export * from './core/manual-audit';
+export * from './core/standard-profiles';
+export * from './core/scoring';
+export * from './core/site-crawler';
+export * from './core/baseline';
+export * from './core/auth';
+export * from './core/user-flow';
+export * from './config/config-loader';
+export { configSchema } from './config/config-schema';
+export { flowSchema } from './config/flow-schema';
+export { setLanguage, getCurrentLang } from './i18n';
 export * from './automation/pseudo-automation';
+export * from './reporting/sarif';
+export * from './reporting/junit';
+export * from './reporting/accessibility-statement';
+export * from './reporting/conformance-matrix';
+export * from './reporting/interactive-report';
+export * from './reporting/report-images';
@@ -0,0 +1,402 @@
+/**
+ * Accessibility Statement
+ * Tillgänglighetsredogörelse enligt EU-kommissionens modell (genomförandebeslut (EU) 2018/1523)
+ * och DIGG:s mall. Byggs från en eller flera scanningar plus manuella granskningsutfall.
+ */
+
+import { getAllConvergenceRules, getConvergenceRule, ConvergenceRule } from '@holmdigital/standards';
+import type { ScanResult, ScanReport } from '../core/regulatory-scanner';
+import type { SiteScanResult } from '../core/site-crawler';
+import { getStandardProfile } from '../core/standard-profiles';
+import { ManualCheckResult, resolveManualCheck } from '../core/manual-results';
+import { t, getCurrentLang } from '../i18n';
+import { escapeHtml, toPages, compareClauses } from './report-utils';
+
+export type ConformanceStatus = 'full' | 'partial' | 'non';
+
+export interface StatementContact {
+    email?: string;
+    phone?: string;
+    url?: string;           // Kontaktformulär
+    responseTime?: string;  // T.ex. "2 working days"
+}
+
+export interface StatementOptions {
+    organisation: string;
+    website: string;                    // Namn eller URL
+    contact: StatementContact;
+    manualResults?: ManualCheckResult[];
+    legislation?: string;               // Default: lagtexten i valt språk
+    enforcement?: { authority: string; url: string }; // Default: DIGG
+    assessor?: string;                  // Tredje part som gjort granskningen; utan den är det en självskattning
+    preparedOn?: string;                // ISO-datum, default: senaste scanningen
+    reviewedOn?: string;
+    disproportionateBurden?: string[];  // Innehåll som inte åtgärdas (oskälig börda)
+    outOfScope?: string[];              // Innehåll som inte omfattas av lagen
+}
+
+export interface NonAccessibleItem {
+    ruleId: string;
+    description: string;
+    source: 'automated' | 'manual';
+    pages: string[];
+    notes?: string;
+}
+
+/**
+ * Brister grupperade per kriterium (WCAG, eller EN 301 549-klausul för krav utanför WCAG)
+ */
+export interface NonAccessibleCriterion {
+    wcagCriteria?: string;
+    en301549Criteria?: string;
+    title: string;
+    legalReference?: string;
+    items: NonAccessibleItem[];
+}
+
+export interface AccessibilityStatement {
+    lang: string;
+    organisation: string;
+    website: string;
+    legislation: string;
+    standard: string;
+    status: ConformanceStatus;
+    nonCompliance: NonAccessibleCriterion[];
+    notReviewed: Array<{ ruleId: string; wcagCriteria: string; title: string }>;
+    disproportionateBurden: string[];
+    outOfScope: string[];
+    pages: string[];
+    manualChecks: number;
+    preparedOn: string;
+    reviewedOn?: string;
+    assessor?: string;
+    contact: StatementContact;
+    enforcement: { authority: string; url: string };
+}
+
+const DIGG_REPORT_URL = 'https://www.digg.se/tdosanmalan';
+
+const DATE_LOCALES: Record<string, string> = {
+    en: 'en-GB',
+    sv: 'sv-SE',
+    de: 'de-DE',
+    fr: 'fr-FR',
+    es: 'es-ES'
+};
+
+function compareCriteria(a: NonAccessibleCriterion, b: NonAccessibleCriterion): number {
+    // WCAG-kriterier först, sedan övriga EN 301 549-klausuler
+    if (Boolean(a.wcagCriteria) !== Boolean(b.wcagCriteria)) return a.wcagCriteria ? -1 : 1;
+    return compareClauses(a.wcagCriteria ?? a.en301549Criteria ?? '', b.wcagCriteria ?? b.en301549Criteria ?? '');
+}
+
+/**
+ * Regler i standarden som scanningen inte har avgjort, en per ruleId – samma bevisregler som
+ * konformitetsmatrisen: regeln kan inte testas automatiskt (eller kräver manuell kontroll),
+ * axe har inte godkänt några element för den, eller axe kunde inte avgöra vissa element
+ */
+function unresolvedRulesInScope(pages: ScanResult[], lang: string): ConvergenceRule[] {
+    const profile = getStandardProfile(pages[0]?.standard);
+    const passed = new Set(pages.flatMap(page => (page.passes ?? []).map(pass => pass.ruleId)));
+    const needsReview = new Set(pages.flatMap(page => (page.needsReview ?? []).map(report => report.ruleId)));
+    const seen = new Set<string>();
+    return getAllConvergenceRules(lang).filter(rule => {
+        if (seen.has(rule.ruleId) || !profile.appliesTo(rule)) return false;
+        seen.add(rule.ruleId);
+        const { automated, requiresManualCheck } = rule.testability;
+        return !automated || requiresManualCheck || !passed.has(rule.ruleId) || needsReview.has(rule.ruleId);
+    });
+}
+
+/**
+ * Bygger redogörelsens innehåll. Språket följer setLanguage().
+ */
+export function buildAccessibilityStatement(
+    input: ScanResult | SiteScanResult | ScanResult[],
+    options: StatementOptions
+): AccessibilityStatement {
+    const lang = getCurrentLang();
+    const pages = toPages(input);
+    const profile = getStandardProfile(pages[0]?.standard);
+    const manualResults = options.manualResults ?? [];
+    const criteria = new Map<string, NonAccessibleCriterion>();
+
+    const addItem = (key: string, criterion: Omit<NonAccessibleCriterion, 'items'>, item: NonAccessibleItem) => {
+        const entry = criteria.get(key) ?? { ...criterion, items: [] };
+        criteria.set(key, entry);
+        const existing = entry.items.find(candidate => candidate.ruleId === item.ruleId && candidate.source === item.source);
+        if (!existing) {
+            entry.items.push(item);
+        } else {
+            existing.pages = Array.from(new Set([...existing.pages, ...item.pages]));
+        }
+    };
+
+    const ruleCriterion = (report: ScanReport | ConvergenceRule): Omit<NonAccessibleCriterion, 'items'> => {
+        const rule = getConvergenceRule(report.ruleId, lang);
+        return {
+            wcagCriteria: report.wcagCriteria,
+            en301549Criteria: report.en301549Criteria,
+            title: rule?.wcagTitle ?? '',
+            legalReference: report.dosLagenReference || undefined
+        };
+    };
+
+    for (const page of pages) {
+        for (const report of page.reports) {
+            addItem(report.wcagCriteria, ruleCriterion(report), {
+                ruleId: report.ruleId,
+                description: report.remediation.description,
+                source: 'automated',
+                pages: [page.url]
+            });
+        }
+    }
+
+    for (const result of manualResults.filter(entry => entry.status === 'fail')) {
+        const { rule, check } = resolveManualCheck(result, lang);
+        const item: NonAccessibleItem = {
+            ruleId: result.id,
+            description: rule?.remediation.description ?? check?.description ?? result.id,
+            source: 'manual',
+            pages: result.url ? [result.url] : [],
+            notes: result.notes
+        };
+        if (rule) {
+            addItem(rule.wcagCriteria, ruleCriterion(rule), item);
+        } else {
+            addItem(`en301549:${check?.id ?? result.id}`, { en301549Criteria: check?.id, title: check?.title ?? result.id }, item);
+        }
+    }
+
+    const failing = new Set(Array.from(criteria.values()).flatMap(c => c.items.map(item => item.ruleId)));
+    const reviewed = new Set(manualResults.map(entry => entry.id));
+    const notReviewed = unresolvedRulesInScope(pages, lang)
+        .filter(rule => !reviewed.has(rule.ruleId) && !reviewed.has(rule.en301549Criteria) && !failing.has(rule.ruleId))
+        .map(rule => ({ ruleId: rule.ruleId, wcagCriteria: rule.wcagCriteria, title: rule.wcagTitle }))
+        .sort((a, b) => compareClauses(a.wcagCriteria, b.wcagCriteria));
+
+    // Fullt förenlig kräver att inget brister och att varje krav är godkänt automatiskt eller granskat manuellt.
+    // Brister mer än hälften av standardens kriterier är webbplatsen inte förenlig.
+    const criteriaInScope = new Set(getAllConvergenceRules(lang).filter(rule => profile.appliesTo(rule)).map(rule => rule.wcagCriteria));
+    const status: ConformanceStatus = criteria.size === 0 && notReviewed.length === 0
+        ? 'full'
+        : criteria.size > criteriaInScope.size / 2 ? 'non' : 'partial';
+
+    const latestScan = pages.map(page => page.timestamp).sort().pop();
+
+    return {
+        lang,
+        organisation: options.organisation,
+        website: options.website,
+        legislation: options.legislation ?? t('statement.legislation'),
+        standard: profile.name,
+        status,
+        nonCompliance: Array.from(criteria.values()).sort(compareCriteria),
+        notReviewed,
+        disproportionateBurden: options.disproportionateBurden ?? [],
+        outOfScope: options.outOfScope ?? [],
+        pages: Array.from(new Set(pages.map(page => page.url))),
+        manualChecks: manualResults.length,
+        preparedOn: options.preparedOn ?? latestScan ?? new Date().toISOString(),
+        reviewedOn: options.reviewedOn,
+        assessor: options.assessor,
+        contact: options.contact,
+        enforcement: options.enforcement ?? { authority: t('statement.default_authority'), url: DIGG_REPORT_URL }
+    };
+}
+
+function formatDate(date: string, lang: string): string {
+    const parsed = new Date(date);
+    if (Number.isNaN(parsed.getTime())) return date;
+    return parsed.toLocaleDateString(DATE_LOCALES[lang] ?? 'en-GB', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function criterionHeading(criterion: NonAccessibleCriterion): string {
+    const clause = criterion.en301549Criteria ? `EN 301 549 ${criterion.en301549Criteria}` : '';
+    if (!criterion.wcagCriteria) return `${clause} ${criterion.title}`.trim();
+    return `WCAG ${criterion.wcagCriteria} ${criterion.title}`.trim() + (clause ? ` (${clause})` : '');
+}
+
+function itemSource(item: NonAccessibleItem, totalPages: number): string {
+    return item.source === 'manual'
+        ? t('statement.manual_finding')
+        : t('statement.found_on_pages', { count: item.pages.length, total: totalPages });
+}
+
+/**
+ * Textblocken i den ordning de står i redogörelsen – delas av Markdown och HTML
+ */
+function statementText(statement: AccessibilityStatement) {
+    const statusKey = statement.status === 'full' ? 'statement.status_full'
+        : statement.status === 'non' ? 'statement.status_non' : 'statement.status_partial';
+    const { contact } = statement;
+
+    return {
+        title: t('statement.title', { website: statement.website }),
+        intro: t('statement.intro', { organisation: statement.organisation, website: statement.website, legislation: statement.legislation }),
+        scope: t('statement.scope', { website: statement.website }),
+        status: t(statusKey, { standard: statement.standard }),
+        preparation: [
+            t('statement.prepared_on', { date: formatDate(statement.preparedOn, statement.lang) }),
+            statement.reviewedOn ? t('statement.reviewed_on', { date: formatDate(statement.reviewedOn, statement.lang) }) : '',
+            statement.manualChecks > 0
+                ? t('statement.method_manual', { pages: statement.pages.length, checks: statement.manualChecks })
+                : t('statement.method', { pages: statement.pages.length }),
+            statement.assessor
+                ? t('statement.assessment_third_party', { assessor: statement.assessor })
+                : t('statement.assessment_self', { organisation: statement.organisation })
+        ].filter(Boolean),
+        contact: [
+            contact.email ? t('statement.email', { email: contact.email }) : '',
+            contact.phone ? t('statement.phone', { phone: contact.phone }) : '',
+            contact.url ? t('statement.contact_form', { url: contact.url }) : ''
+        ].filter(Boolean),
+        responseTime: contact.responseTime ? t('statement.response_time', { time: contact.responseTime }) : '',
+        enforcement: t('statement.enforcement_text', { authority: statement.enforcement.authority }),
+        enforcementLink: t('statement.enforcement_link', { authority: statement.enforcement.authority, url: statement.enforcement.url })
+    };
+}
+
+/**
+ * Redogörelsen som Markdown (för CMS:er som tar emot Markdown)
+ */
+export function generateStatementMarkdown(input: ScanResult | SiteScanResult | ScanResult[], options: StatementOptions): string {
+    const statement = buildAccessibilityStatement(input, options);
+    const text = statementText(statement);
+    const lines: string[] = [
+        `# ${text.title}`, '',
+        text.intro, '',
+        text.scope, '',
+        `## ${t('statement.status_heading')}`, '',
+        text.status, '',
+        `## ${t('statement.non_accessible_heading')}`, ''
+    ];
+
+    if (statement.nonCompliance.length === 0) {
+        lines.push(t('statement.non_accessible_none'), '');
+    } else {
+        lines.push(`### ${t('statement.non_compliance_heading')}`, '');
+        for (const criterion of statement.nonCompliance) {
+            lines.push(`#### ${criterionHeading(criterion)}`, '');
+            for (const item of criterion.items) {
+                lines.push(`- ${item.description} _(${itemSource(item, statement.pages.length)})_`);
+                if (item.notes) lines.push(`  ${item.notes}`);
+                if (statement.pages.length > 1) item.pages.forEach(page => lines.push(`  - ${page}`));
+            }
+            lines.push('');
+            if (criterion.legalReference) lines.push(t('statement.legal_reference', { reference: criterion.legalReference }), '');
+        }
+    }
+
+    if (statement.disproportionateBurden.length > 0) {
+        lines.push(`### ${t('statement.burden_heading')}`, '', t('statement.burden_intro'), '');
+        lines.push(...statement.disproportionateBurden.map(entry => `- ${entry}`), '');
+    }
+    if (statement.outOfScope.length > 0) {
+        lines.push(`### ${t('statement.out_of_scope_heading')}`, '');
+        lines.push(...statement.outOfScope.map(entry => `- ${entry}`), '');
+    }
+    if (statement.notReviewed.length > 0) {
+        lines.push(`### ${t('statement.not_reviewed_heading')}`, '', t('statement.not_reviewed_intro'), '');
+        lines.push(...statement.notReviewed.map(rule => `- WCAG ${rule.wcagCriteria} ${rule.title}`), '');
+    }
+
+    lines.push(`## ${t('statement.preparation_heading')}`, '', text.preparation.join(' '), '');
+
+    lines.push(`## ${t('statement.feedback_heading')}`, '', t('statement.feedback_intro'), '');
+    lines.push(...text.contact.map(entry => `- ${entry}`), '');
+    if (text.responseTime) lines.push(text.responseTime, '');
+
+    lines.push(`## ${t('statement.enforcement_heading')}`, '', text.enforcement, '', text.enforcementLink, '');
+
+    return lines.join('\n');
+}
+
+/**
+ * Redogörelsen som fristående HTML-sida
+ */
+export function generateStatementHTML(input: ScanResult | SiteScanResult | ScanResult[], options: StatementOptions): string {
+    const statement = buildAccessibilityStatement(input, options);
+    const text = statementText(statement);
+    const list = (entries: string[]) => `<ul>${entries.map(entry => `<li>${escapeHtml(entry)}</li>`).join('')}</ul>`;
+
+    const nonCompliance = statement.nonCompliance.length === 0
+        ? `<p>${escapeHtml(t('statement.non_accessible_none'))}</p>`
+        : `<h3>${escapeHtml(t('statement.non_compliance_heading'))}</h3>
+        ${statement.nonCompliance.map(criterion => `
+        <h4>${escapeHtml(criterionHeading(criterion))}</h4>
+        <ul>
+            ${criterion.items.map(item => `
+            <li>
+                ${escapeHtml(item.description)} <span class="source">(${escapeHtml(itemSource(item, statement.pages.length))})</span>
+                ${item.notes ? `<p class="notes">${escapeHtml(item.notes)}</p>` : ''}
+                ${statement.pages.length > 1 && item.pages.length > 0 ? list(item.pages) : ''}
+            </li>`).join('')}
+        </ul>
+        ${criterion.legalReference ? `<p class="legal">${escapeHtml(t('statement.legal_reference', { reference: criterion.legalReference }))}</p>` : ''}
+        `).join('')}`;
+
+    return `<!DOCTYPE html>
+<html lang="${statement.lang}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(text.title)}</title>
+    <style>
+        body {
+            font-family: system-ui, -apple-system, 'Segoe UI', sans-serif;
+            color: #0f172a;
+            line-height: 1.6;
+            max-width: 48rem;
+            margin: 0 auto;
+            padding: 2rem 1.5rem;
+        }
+        h1 { font-size: 2rem; line-height: 1.2; }
+        h2 { margin-top: 2.5rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; }
+        h4 { margin-bottom: 0.5rem; }
+        .source, .legal { color: #475569; font-size: 0.9rem; }
+        .notes { margin: 0.25rem 0; }
+        li ul { font-size: 0.875rem; word-break: break-all; }
+        a { color: #0369a1; }
+    </style>
+</head>
+<body>
+    <main>
+        <h1>${escapeHtml(text.title)}</h1>
+        <p>${escapeHtml(text.intro)}</p>
+        <p>${escapeHtml(text.scope)}</p>
+
+        <h2>${escapeHtml(t('statement.status_heading'))}</h2>
+        <p>${escapeHtml(text.status)}</p>
+
+        <h2>${escapeHtml(t('statement.non_accessible_heading'))}</h2>
+        ${nonCompliance}
+        ${statement.disproportionateBurden.length > 0 ? `
+        <h3>${escapeHtml(t('statement.burden_heading'))}</h3>
+        <p>${escapeHtml(t('statement.burden_intro'))}</p>
+        ${list(statement.disproportionateBurden)}` : ''}
+        ${statement.outOfScope.length > 0 ? `
+        <h3>${escapeHtml(t('statement.out_of_scope_heading'))}</h3>
+        ${list(statement.outOfScope)}` : ''}
+        ${statement.notReviewed.length > 0 ? `
+        <h3>${escapeHtml(t('statement.not_reviewed_heading'))}</h3>
+        <p>${escapeHtml(t('statement.not_reviewed_intro'))}</p>
+        ${list(statement.notReviewed.map(rule => `WCAG ${rule.wcagCriteria} ${rule.title}`))}` : ''}
+
+        <h2>${escapeHtml(t('statement.preparation_heading'))}</h2>
+        <p>${escapeHtml(text.preparation.join(' '))}</p>
+
+        <h2>${escapeHtml(t('statement.feedback_heading'))}</h2>
+        <p>${escapeHtml(t('statement.feedback_intro'))}</p>
+        ${list(text.contact)}
+        ${text.responseTime ? `<p>${escapeHtml(text.responseTime)}</p>` : ''}
+
+        <h2>${escapeHtml(t('statement.enforcement_heading'))}</h2>
+        <p>${escapeHtml(text.enforcement)}</p>
+        <p><a href="${escapeHtml(statement.enforcement.url)}">${escapeHtml(text.enforcementLink)}</a></p>
+    </main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,359 @@
+/**
+ * Conformance Matrix
+ * Klausul för klausul enligt EN 301 549: alla kapitel 9-klausuler i databasen plus IKT-kontrollerna,
+ * var och en med status och bevis (regler, element, manuella utfall).
+ */
+
+import {
+    getAllConvergenceRules,
+    getICTManualChecklist,
+    ConvergenceRule,
+    ICTManualCheck,
+    WCAGLevel
+} from '@holmdigital/standards';
+import type { ScanReport, ScanResult } from '../core/regulatory-scanner';
+import type { SiteScanResult } from '../core/site-crawler';
+import { getStandardProfile } from '../core/standard-profiles';
+import type { ManualCheckResult, ManualCheckStatus } from '../core/manual-results';
+import { t, getCurrentLang } from '../i18n';
+import { escapeHtml, toPages, compareClauses } from './report-utils';
+
+export type ClauseStatus = 'passed' | 'failed' | 'manual-review' | 'not-applicable';
+
+export const CLAUSE_STATUSES: ClauseStatus[] = ['failed', 'manual-review', 'passed', 'not-applicable'];
+
+export interface MatrixNode {
+    url: string;
+    target: string;
+    html: string;
+    frame?: string;
+}
+
+export interface MatrixEvidence {
+    ruleId: string;                 // ruleId, eller klausul-ID för manuella utfall på hela klausulen
+    source: 'automated' | 'manual';
+    result: ManualCheckStatus | 'needs-review'; // needs-review = axe kunde inte avgöra elementen (incomplete)
+    nodes: MatrixNode[];
+    passedNodes?: number;           // Godkända element för en automatisk regel utan fel
+    notes?: string;
+    screenshots?: string[];
+}
+
+export interface MatrixClause {
+    clause: string;
+    chapter: number;
+    title: string;
+    wcagCriteria?: string;
+    wcagLevel?: WCAGLevel;
+    status: ClauseStatus;
+    rules: string[];
+    applicableFor?: string[];       // IKT-kontroller: produktkategorierna kontrollen gäller
+    evidence: MatrixEvidence[];
+}
+
+export interface ConformanceMatrix {
+    standard: string;
+    timestamp: string;
+    pages: string[];
+    categories: string[];
+    clauses: MatrixClause[];
+    summary: Record<ClauseStatus, number>;
+}
+
+export interface MatrixOptions {
+    manualResults?: ManualCheckResult[];
+    categories?: string[];          // Produktkategorier för IKT-kontrollerna (t.ex. "pdf", "mobile-apps"); "all" gäller alltid
+}
+
+/**
+ * Kapitel 9-klausulerna i EN 301 549-profilen med sina regler, i klausulordning
+ */
+function webClauses(lang: string): Map<string, ConvergenceRule[]> {
+    const profile = getStandardProfile('en301549');
+    const clauses = new Map<string, ConvergenceRule[]>();
+    const seen = new Set<string>();
+
+    for (const rule of getAllConvergenceRules(lang)) {
+        if (seen.has(rule.ruleId) || rule.en301549Chapter !== 9 || !profile.appliesTo(rule)) continue;
+        seen.add(rule.ruleId);
+        clauses.set(rule.en301549Criteria, [...(clauses.get(rule.en301549Criteria) ?? []), rule]);
+    }
+    return new Map(Array.from(clauses.entries()).sort(([a], [b]) => compareClauses(a, b)));
+}
+
+function manualEvidence(result: ManualCheckResult): MatrixEvidence {
+    return {
+        ruleId: result.id,
+        source: 'manual',
+        result: result.status,
+        nodes: [],
+        notes: result.notes,
+        screenshots: result.screenshots
+    };
+}
+
+/**
+ * Status för en klausul utifrån bevisen. En regel är automatiskt godkänd bara om axe har godkänt
+ * element för den – avstängda, ej tillämpliga och ej körda regler kräver ett manuellt utfall.
+ */
+function clauseStatus(evidence: MatrixEvidence[], rules: ConvergenceRule[], clause: string): ClauseStatus {
+    if (evidence.some(entry => entry.result === 'fail')) return 'failed';
+
+    const manual = evidence.filter(entry => entry.source === 'manual');
+    if (manual.length > 0 && manual.every(entry => entry.result === 'not-applicable')) return 'not-applicable';
+
+    // Element som axe inte kunde avgöra kräver ett manuellt utfall för regeln eller klausulen
+    const reviewed = new Set(manual.map(entry => entry.ruleId));
+    if (reviewed.has(clause)) return 'passed';
+    if (evidence.some(entry => entry.result === 'needs-review' && !reviewed.has(entry.ruleId))) return 'manual-review';
+
+    // Varje regel utan automatiskt godkännande måste vara manuellt granskad
+    const passed = new Set(evidence
+        .filter(entry => entry.source === 'automated' && entry.result === 'pass')
+        .map(entry => entry.ruleId));
+    const unresolved = rules.filter(rule =>
+        !rule.testability.automated || rule.testability.requiresManualCheck || !passed.has(rule.ruleId));
+    return unresolved.every(rule => reviewed.has(rule.ruleId)) ? 'passed' : 'manual-review';
+}
+
+/**
+ * Bygger matrisen från en eller flera scanningar och manuella utfall. Språket följer setLanguage().
+ */
+export function buildConformanceMatrix(
+    input: ScanResult | SiteScanResult | ScanResult[],
+    options: MatrixOptions = {}
+): ConformanceMatrix {
+    const lang = getCurrentLang();
+    const pages = toPages(input);
+    const manualResults = options.manualResults ?? [];
+    const categories = options.categories ?? [];
+    const clauses: MatrixClause[] = [];
+
+    for (const [clause, rules] of webClauses(lang)) {
+        const ruleIds = rules.map(rule => rule.ruleId);
+        const evidence: MatrixEvidence[] = [];
+
+        for (const rule of rules) {
+            const nodesOf = (select: (page: ScanResult) => ScanReport[]) => pages.flatMap(page => select(page)
+                .filter(report => report.ruleId === rule.ruleId)
+                .flatMap(report => (report.failingNodes ?? []).map(node => ({
+                    url: page.url,
+                    target: node.target,
+                    html: node.html,
+                    ...(node.frame ? { frame: node.frame } : {})
+                }))));
+            const failed = pages.some(page => page.reports.some(report => report.ruleId === rule.ruleId));
+            const review = pages.some(page => page.needsReview?.some(report => report.ruleId === rule.ruleId));
+            if (failed) {
+                evidence.push({ ruleId: rule.ruleId, source: 'automated', result: 'fail', nodes: nodesOf(page => page.reports) });
+            } else if (review) {
+                evidence.push({ ruleId: rule.ruleId, source: 'automated', result: 'needs-review', nodes: nodesOf(page => page.needsReview ?? []) });
+            } else if (rule.testability.automated) {
+                // Utan godkända element finns inget bevis för att regeln kördes
+                const passedNodes = pages.reduce((sum, page) =>
+                    sum + (page.passes?.find(pass => pass.ruleId === rule.ruleId)?.nodes ?? 0), 0);
+                if (passedNodes > 0) {
+                    evidence.push({ ruleId: rule.ruleId, source: 'automated', result: 'pass', nodes: [], passedNodes });
+                }
+            }
+        }
+        evidence.push(...manualResults
+            .filter(result => result.id === clause || ruleIds.includes(result.id))
+            .map(manualEvidence));
+
+        clauses.push({
+            clause,
+            chapter: 9,
+            title: rules[0].en301549Title,
+            wcagCriteria: rules[0].wcagCriteria,
+            wcagLevel: rules[0].wcagLevel,
+            status: clauseStatus(evidence, rules, clause),
+            rules: ruleIds,
+            evidence
+        });
+    }
+
+    const applies = (check: ICTManualCheck) =>
+        check.applicableFor.includes('all') || check.applicableFor.some(category => categories.includes(category));
+
+    for (const check of [...getICTManualChecklist()].sort((a, b) => compareClauses(a.id, b.id))) {
+        const evidence = manualResults.filter(result => result.id === check.id).map(manualEvidence);
+        const status: ClauseStatus = !applies(check) ? 'not-applicable'
+            : evidence.some(entry => entry.result === 'fail') ? 'failed'
+                : evidence.length > 0 && evidence.every(entry => entry.result === 'not-applicable') ? 'not-applicable'
+                    : evidence.some(entry => entry.result === 'pass') ? 'passed' : 'manual-review';
+
+        clauses.push({
+            clause: check.id,
+            chapter: check.chapter,
+            title: check.title,
+            status,
+            rules: [],
+            applicableFor: check.applicableFor,
+            evidence
+        });
+    }
+
+    const summary = Object.fromEntries(CLAUSE_STATUSES.map(status =>
+        [status, clauses.filter(clause => clause.status === status).length])) as Record<ClauseStatus, number>;
+
+    return {
+        standard: getStandardProfile('en301549').name,
+        timestamp: pages.map(page => page.timestamp).sort().pop() ?? new Date().toISOString(),
+        pages: Array.from(new Set(pages.map(page => page.url))),
+        categories,
+        clauses,
+        summary
+    };
+}
+
+const STATUS_KEYS = {
+    'passed': 'matrix.status_passed',
+    'failed': 'matrix.status_failed',
+    'manual-review': 'matrix.status_manual_review',
+    'not-applicable': 'matrix.status_not_applicable'
+} as const;
+
+const RESULT_KEYS = {
+    'pass': 'matrix.result_pass',
+    'fail': 'matrix.result_fail',
+    'not-applicable': 'matrix.result_not_applicable',
+    'needs-review': 'matrix.result_needs_review'
+} as const;
+
+const MAX_NODES_PER_EVIDENCE = 10;
+
+function anchorFor(clause: MatrixClause): string {
+    return `clause-${clause.clause.replace(/\./g, '-')}`;
+}
+
+function renderEvidence(entry: MatrixEvidence): string {
+    const label = entry.source === 'automated'
+        ? t('matrix.automated_result', { ruleId: entry.ruleId, result: t(RESULT_KEYS[entry.result]) })
+        : t('matrix.manual_result', { id: entry.ruleId, result: t(RESULT_KEYS[entry.result]) });
+    const shown = entry.nodes.slice(0, MAX_NODES_PER_EVIDENCE);
+
+    return `
+        <li class="evidence evidence-${entry.result}">
+            ${escapeHtml(label)}${entry.passedNodes ? ` <span class="page">${escapeHtml(t('matrix.passed_nodes', { count: entry.passedNodes }))}</span>` : ''}
+            ${entry.notes ? `<div class="notes">${escapeHtml(entry.notes)}</div>` : ''}
+            ${entry.screenshots?.length ? `<div class="notes">${escapeHtml(t('matrix.screenshots'))} ${entry.screenshots.map(escapeHtml).join(', ')}</div>` : ''}
+            ${shown.length > 0 ? `
+            <ul class="nodes">
+                ${shown.map(node => `<li><code>${escapeHtml(node.target)}</code> <span class="page">${escapeHtml(node.url)}${node.frame ? ` → ${escapeHtml(node.frame)}` : ''}</span></li>`).join('')}
+                ${entry.nodes.length > shown.length ? `<li>${escapeHtml(t('matrix.more_nodes', { count: entry.nodes.length - shown.length }))}</li>` : ''}
+            </ul>` : ''}
+        </li>`;
+}
+
+function renderRows(clauses: MatrixClause[]): string {
+    return clauses.map(clause => `
+            <tr>
+                <td><a href="#${anchorFor(clause)}">${clause.clause}</a></td>
+                <td>${escapeHtml(clause.title)}</td>
+                <td>${clause.wcagCriteria ? `${clause.wcagCriteria} (${clause.wcagLevel})` : escapeHtml(clause.applicableFor?.join(', ') ?? '')}</td>
+                <td><span class="status status-${clause.status}">${escapeHtml(t(STATUS_KEYS[clause.status]))}</span></td>
+            </tr>`).join('');
+}
+
+/**
+ * Matrisen som HTML (används även för PDF)
+ */
+export function generateMatrixHTML(input: ScanResult | SiteScanResult | ScanResult[], options: MatrixOptions = {}): string {
+    const matrix = buildConformanceMatrix(input, options);
+    const web = matrix.clauses.filter(clause => clause.chapter === 9);
+    const other = matrix.clauses.filter(clause => clause.chapter !== 9);
+    const generated = new Date(matrix.timestamp).toLocaleDateString(getCurrentLang() === 'sv' ? 'sv-SE' : 'en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+    });
+
+    const table = (clauses: MatrixClause[]) => `
+        <table>
+            <thead>
+                <tr>
+                    <th scope="col">${escapeHtml(t('matrix.clause'))}</th>
+                    <th scope="col">${escapeHtml(t('matrix.requirement'))}</th>
+                    <th scope="col">${escapeHtml(t('matrix.wcag'))}</th>
+                    <th scope="col">${escapeHtml(t('matrix.status'))}</th>
+                </tr>
+            </thead>
+            <tbody>${renderRows(clauses)}
+            </tbody>
+        </table>`;
+
+    return `<!DOCTYPE html>
+<html lang="${getCurrentLang()}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(t('matrix.title', { standard: matrix.standard }))}</title>
+    <style>
+        @page { margin: 16mm; }
+        body {
+            font-family: system-ui, -apple-system, 'Segoe UI', sans-serif;
+            color: #0f172a;
+            margin: 0;
+            padding: 40px;
+            font-size: 0.875rem;
+            -webkit-print-color-adjust: exact;
+        }
+        h1 { font-size: 1.5rem; margin: 0 0 0.5rem; }
+        h2 { font-size: 1.125rem; margin-top: 2.5rem; }
+        h3 { font-size: 1rem; margin: 0 0 0.5rem; }
+        .meta { color: #64748b; margin-bottom: 2rem; }
+        .summary { display: flex; gap: 1rem; margin-bottom: 2rem; }
+        .summary div { border: 1px solid #e2e8f0; border-radius: 8px; padding: 0.75rem 1rem; min-width: 8rem; }
+        .summary strong { display: block; font-size: 1.5rem; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+        th { background: #f8fafc; }
+        tr { page-break-inside: avoid; }
+        .status { display: inline-block; padding: 0.125rem 0.5rem; border-radius: 9999px; font-weight: 600; font-size: 0.75rem; white-space: nowrap; }
+        .status-passed { background: #f0fdf4; color: #166534; }
+        .status-failed { background: #fef2f2; color: #b91c1c; }
+        .status-manual-review { background: #fffbeb; color: #92400e; }
+        .status-not-applicable { background: #f1f5f9; color: #475569; }
+        .clause-detail { border: 1px solid #e2e8f0; border-radius: 8px; padding: 1rem; margin-bottom: 1rem; page-break-inside: avoid; }
+        .evidence { margin-bottom: 0.5rem; }
+        .evidence-fail { color: #b91c1c; }
+        .evidence-needs-review { color: #b45309; }
+        .notes, .page { color: #475569; }
+        .nodes { color: #0f172a; word-break: break-all; }
+        code { font-size: 0.8rem; }
+        a { color: #0369a1; }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(t('matrix.title', { standard: matrix.standard }))}</h1>
+    <div class="meta">
+        <div>${escapeHtml(t('matrix.generated', { date: generated }))}</div>
+        <div>${escapeHtml(t('matrix.pages', { count: matrix.pages.length }))}</div>
+        ${matrix.categories.length > 0 ? `<div>${escapeHtml(t('matrix.categories', { categories: matrix.categories.join(', ') }))}</div>` : ''}
+    </div>
+
+    <div class="summary">
+        ${CLAUSE_STATUSES.map(status => `<div><span class="status status-${status}">${escapeHtml(t(STATUS_KEYS[status]))}</span><strong>${matrix.summary[status]}</strong></div>`).join('')}
+    </div>
+
+    <h2>${escapeHtml(t('matrix.web_heading'))}</h2>
+    ${table(web)}
+
+    <h2>${escapeHtml(t('matrix.ict_heading'))}</h2>
+    ${table(other)}
+
+    <h2>${escapeHtml(t('matrix.evidence_heading'))}</h2>
+    ${matrix.clauses.map(clause => `
+    <div class="clause-detail" id="${anchorFor(clause)}">
+        <h3>${clause.clause} ${escapeHtml(clause.title)} <span class="status status-${clause.status}">${escapeHtml(t(STATUS_KEYS[clause.status]))}</span></h3>
+        ${clause.evidence.length > 0
+        ? `<ul>${clause.evidence.map(renderEvidence).join('')}</ul>`
+        : `<div class="notes">${escapeHtml(clause.status === 'not-applicable' && clause.applicableFor
+            ? t('matrix.not_in_category', { categories: clause.applicableFor.join(', ') })
+            : t('matrix.no_evidence'))}</div>`}
+    </div>`).join('')}
+</body>
+</html>
+`;
+}
@@ -1,10 +1,101 @@
 
-import { ScanResult } from '../core/regulatory-scanner';
+import { FailingNode, ScanResult } from '../core/regulatory-scanner';
+import { getStandardProfile } from '../core/standard-profiles';
+import type { ReportImages } from './report-images';
+import { formatScoreFactors, ScoreBreakdown, WCAG_PRINCIPLES } from '../core/scoring';
 import { t, getCurrentLang } from '../i18n';
+import { escapeHtml } from './report-utils';
 
-export function generateReportHTML(result: ScanResult): string {
+/**
+ * Bild eller, om den inte fick plats i rapporten, sökvägen till filen
+ */
+function renderImage(file: string, alt: string, images: ReportImages): string {
+    const src = images[file];
+    return src
+        ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}">`
+        : `<div class="screenshot-omitted">${escapeHtml(t('report.screenshot_omitted', { path: file }))}</div>`;
+}
+
+function renderNodeScreenshots(nodes: FailingNode[], images: ReportImages): string {
+    const withImages = nodes.filter(node => node.screenshot);
+    if (withImages.length === 0) return '';
+    return `
+                <div class="screenshots">
+                    ${withImages.map(node => `
+                    <figure>
+                        ${renderImage(node.screenshot!, node.target, images)}
+                        <figcaption><strong>${node.marker}</strong> ${escapeHtml(node.target)}</figcaption>
+                    </figure>`).join('')}
+                </div>`;
+}
+
+const PRINCIPLE_KEYS = ['html.principle_1', 'html.principle_2', 'html.principle_3', 'html.principle_4'] as const;
+
+function renderScoreBreakdown(breakdown: ScoreBreakdown): string {
+    const deductions = [...breakdown.deductions].sort((a, b) => b.points - a.points);
+    return `
+        <div class="section-title">${t('report.score_breakdown')}</div>
+        <div class="principle-grid">
+            ${WCAG_PRINCIPLES.map((principle, index) => `
+            <div class="card">
+                <div class="metric-label">${t(PRINCIPLE_KEYS[index])}</div>
+                <div class="metric-value">${breakdown.principles[principle]}</div>
+            </div>`).join('')}
+        </div>
+        <div class="score-note">${escapeHtml(t('report.score_explanation', { model: breakdown.model }))}</div>
+        ${deductions.length > 0 ? `
+        <table class="deductions">
+            <thead><tr><th>${t('report.deduction_rule')}</th><th>${t('report.deduction_factors')}</th><th class="points">${t('report.deduction_points')}</th></tr></thead>
+            <tbody>
+                ${deductions.map(deduction => `<tr><td>${escapeHtml(deduction.ruleId)}</td><td>${escapeHtml(formatScoreFactors(deduction.factors))}</td><td class="points">−${deduction.points}</td></tr>`).join('')}
+            </tbody>
+        </table>` : ''}`;
+}
+
+const MAX_REVIEW_NODES = 5;
+
+function renderNeedsReview(result: ScanResult): string {
+    const review = result.needsReview ?? [];
+    const passes = result.passes ?? [];
+    return `
+        ${review.length > 0 ? `
+        <div class="needs-review">
+            <div class="section-title">${t('report.needs_review')}</div>
+            <div class="out-of-scope-note">${escapeHtml(t('report.needs_review_note'))}</div>
+            ${review.map(report => {
+        const nodes = report.failingNodes ?? [];
+        return `
+            <div class="violation-card review-card">
+                <div class="violation-title">${escapeHtml(report.ruleId)}</div>
+                <div class="violation-meta">WCAG ${report.wcagCriteria} • EN 301 549 ${report.en301549Criteria}</div>
+                ${report.holmdigitalInsight.reasoning ? `<div class="review-reason">${escapeHtml(String(report.holmdigitalInsight.reasoning))}</div>` : ''}
+                <ul class="review-nodes">
+                    ${nodes.slice(0, MAX_REVIEW_NODES).map(node => `<li><code>${escapeHtml(node.target)}</code></li>`).join('')}
+                    ${nodes.length > MAX_REVIEW_NODES ? `<li>${escapeHtml(t('cli.more', { count: nodes.length - MAX_REVIEW_NODES }))}</li>` : ''}
+                </ul>
+            </div>`;
+    }).join('')}
+        </div>
+        ` : ''}
+        ${passes.length > 0 ? `
+        <div class="out-of-scope">
+            <div class="section-title">${t('report.passed_rules', { count: passes.length })}</div>
+            <div class="out-of-scope-note">${escapeHtml(t('report.passed_note'))}</div>
+            ${passes.map(pass => `
+            <div class="out-of-scope-item">
+                <strong>${escapeHtml(pass.ruleId)}</strong> • WCAG ${pass.wcagCriteria} • ${escapeHtml(t('html.elements', { count: pass.nodes }))}
+            </div>`).join('')}
+        </div>
+        ` : ''}`;
+}
+
+/**
+ * Rapport för en sida (PDF). `images` från loadReportImages bäddar in skärmdumparna.
+ */
+export function generateReportHTML(result: ScanResult, images: ReportImages = {}): string {
     const criticalCount = result.stats.critical;
     const highCount = result.stats.high;
+    const standardName = getStandardProfile(result.standard).name;
     const scoreColor = result.score > 90 ? '#16a34a' : result.score > 70 ? '#eab308' : '#dc2626';
 
     const formatDate = (dateString: string) => {
@@ -24,13 +115,12 @@ export function generateReportHTML(result: ScanResult): string {
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
         <title>${t('report.title', { url: result.url })}</title>
-        <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">
         <style>
             @page {
                 margin: 0;
             }
             body {
-                font-family: 'Inter', sans-serif;
+                font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
                 background-color: #ffffff;
                 color: #0f172a;
                 margin: 0;
@@ -130,6 +220,87 @@ export function generateReportHTML(result: ScanResult): string {
                 padding-bottom: 1rem;
                 border-bottom: 1px solid #f1f5f9;
             }
+            .frame-list {
+                margin-top: 1rem;
+                font-size: 0.875rem;
+                color: #6b21a8;
+            }
+            .frame-list ul {
+                margin: 0.25rem 0 0;
+                padding-left: 1.25rem;
+                word-break: break-all;
+            }
+            .principle-grid {
+                display: grid;
+                grid-template-columns: repeat(4, 1fr);
+                gap: 1rem;
+                margin-bottom: 1rem;
+            }
+            .principle-grid .metric-value {
+                font-size: 1.5rem;
+            }
+            .score-note {
+                font-size: 0.875rem;
+                color: #64748b;
+                margin-bottom: 1rem;
+            }
+            .deductions {
+                width: 100%;
+                border-collapse: collapse;
+                font-size: 0.8125rem;
+                margin-bottom: 3rem;
+            }
+            .deductions th, .deductions td {
+                text-align: left;
+                padding: 0.375rem 0.5rem;
+                border-bottom: 1px solid #f1f5f9;
+            }
+            .deductions .points {
+                text-align: right;
+                white-space: nowrap;
+            }
+            .screenshots {
+                display: grid;
+                grid-template-columns: repeat(2, 1fr);
+                gap: 1rem;
+                margin-top: 1rem;
+            }
+            figure {
+                margin: 0;
+                page-break-inside: avoid;
+            }
+            figure img {
+                display: block;
+                max-width: 100%;
+                max-height: 360px;
+                border: 1px solid #e2e8f0;
+                border-radius: 4px;
+            }
+            figcaption {
+                font-size: 0.75rem;
+                color: #475569;
+                margin-top: 0.25rem;
+                word-break: break-all;
+            }
+            figcaption strong {
+                background: #dc2626;
+                color: #ffffff;
+                border-radius: 3px;
+                padding: 0 0.3rem;
+                margin-right: 0.25rem;
+            }
+            .page-screenshot img {
+                max-height: none;
+            }
+            .page-screenshot {
+                margin-bottom: 3rem;
+            }
+            .screenshot-omitted {
+                font-size: 0.75rem;
+                color: #64748b;
+                font-style: italic;
+                word-break: break-all;
+            }
             .remediation-box {
                 background: #f0fdf4;
                 border: 1px solid #bbf7d0;
@@ -147,6 +318,34 @@ export function generateReportHTML(result: ScanResult): string {
                 color: #15803d;
                 font-size: 0.875rem;
             }
+            .out-of-scope, .needs-review {
+                margin-top: 3rem;
+            }
+            .review-card {
+                border-left: 4px solid #d97706;
+            }
+            .review-reason {
+                font-size: 0.95rem;
+                color: #334155;
+            }
+            .review-nodes {
+                margin: 0.75rem 0 0;
+                padding-left: 1.25rem;
+                font-size: 0.8125rem;
+                color: #0e7490;
+                word-break: break-all;
+            }
+            .out-of-scope-note {
+                font-size: 0.875rem;
+                color: #64748b;
+                margin-bottom: 1rem;
+            }
+            .out-of-scope-item {
+                font-size: 0.875rem;
+                color: #475569;
+                padding: 0.5rem 0;
+                border-bottom: 1px solid #f1f5f9;
+            }
             footer {
                 margin-top: 4rem;
                 text-align: center;
@@ -163,6 +362,7 @@ export function generateReportHTML(result: ScanResult): string {
             <div class="meta">
                 <div>${t('report.scan_target', { url: result.url })}</div>
                 <div>${t('report.generated', { date: formatDate(result.timestamp) })}</div>
+                <div>${t('report.standard', { standard: standardName })}</div>
             </div>
         </div>
 
@@ -185,10 +385,20 @@ export function generateReportHTML(result: ScanResult): string {
             </div>
         </div>
 
+        ${result.scoreBreakdown ? renderScoreBreakdown(result.scoreBreakdown) : ''}
+
+        ${result.screenshot ? `
+        <div class="section-title">${t('report.page_screenshot')}</div>
+        <figure class="page-screenshot">
+            ${renderImage(result.screenshot, t('report.page_screenshot'), images)}
+        </figure>
+        ` : ''}
+
         <div class="section-title">${t('report.detailed_violations')}</div>
 
         ${result.reports.map(report => {
         const riskClass = `badge-${report.holmdigitalInsight.diggRisk}`;
+        const frames = Array.from(new Set((report.failingNodes ?? []).flatMap(node => (node.frame ? [node.frame] : []))));
         return `
             <div class="violation-card">
                 <div class="violation-header">
@@ -203,6 +413,13 @@ export function generateReportHTML(result: ScanResult): string {
                     ${report.holmdigitalInsight.swedishInterpretation}
                     ${report.holmdigitalInsight.priorityRationale ? `<br/><br/><strong>Priority Rationale:</strong> ${report.holmdigitalInsight.priorityRationale}` : ''}
                 </div>
+                ${renderNodeScreenshots(report.failingNodes ?? [], images)}
+                ${frames.length > 0 ? `
+                <div class="frame-list">
+                    ${t('report.in_frames')}
+                    <ul>${frames.map(frame => `<li>${escapeHtml(frame)}</li>`).join('')}</ul>
+                </div>
+                ` : ''}
                 ${report.remediation.component ? `
                 <div class="remediation-box">
                     <div class="remediation-title">${t('report.prescriptive_fix')}</div>
@@ -213,6 +430,20 @@ export function generateReportHTML(result: ScanResult): string {
             `;
     }).join('')}
 
+        ${renderNeedsReview(result)}
+
+        ${result.outOfScope && result.outOfScope.length > 0 ? `
+        <div class="out-of-scope">
+            <div class="section-title">${t('report.out_of_scope', { standard: standardName })}</div>
+            <div class="out-of-scope-note">${t('report.out_of_scope_note')}</div>
+            ${result.outOfScope.map(report => `
+            <div class="out-of-scope-item">
+                <strong>${escapeHtml(report.ruleId)}</strong> • WCAG ${escapeHtml(report.wcagCriteria)} • ${escapeHtml(report.remediation.description)}
+            </div>
+            `).join('')}
+        </div>
+        ` : ''}
+
         <footer>
             ${t('report.footer')}
         </footer>
@@ -0,0 +1,480 @@
+/**
+ * Interaktiv HTML-rapport
+ * En fristående fil (CSS och skript inbäddade, inga externa resurser) som fungerar offline.
+ * Brister kan filtreras på risk, WCAG-princip och EN 301 549-kapitel.
+ */
+
+import type { DiggRisk } from '@holmdigital/standards';
+import type { FailingNode, ScanReport, ScanResult } from '../core/regulatory-scanner';
+import type { SiteScanResult } from '../core/site-crawler';
+import { getStandardProfile } from '../core/standard-profiles';
+import { formatScoreFactors, ScoreBreakdown, WCAG_PRINCIPLES } from '../core/scoring';
+import type { ReportImages } from './report-images';
+import { t, getCurrentLang } from '../i18n';
+import { escapeHtml, toPages } from './report-utils';
+
+const RISKS: DiggRisk[] = ['critical', 'high', 'medium', 'low'];
+const NOT_MAPPED = 'none';
+
+/**
+ * En regel med dess fallerande element per sida (en crawl ger en post per regel, inte per sida)
+ */
+interface RuleEntry {
+    report: ScanReport;
+    principle: string;
+    chapter: string;
+    pages: Array<{ url: string; step?: string; nodes: FailingNode[] }>;
+}
+
+// Kodexemplen i databasen är JSX/TSX – en enkel tokenisering räcker för färgläggning
+const TOKENS = new RegExp([
+    '(\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/|<!--[\\s\\S]*?-->)',                     // 1 kommentar
+    '(\'(?:[^\'\\\\\\n]|\\\\.)*\'|"(?:[^"\\\\\\n]|\\\\.)*"|`(?:[^`\\\\]|\\\\.)*`)',   // 2 sträng
+    '(<\\/?[A-Za-z][\\w.-]*|\\/?>)',                                               // 3 tagg
+    '([A-Za-z_:][\\w:.-]*(?==))',                                                  // 4 attribut
+    '\\b(import|from|export|default|const|let|var|function|return|if|else|async|await|new|class|extends|true|false|null|undefined)\\b', // 5 nyckelord
+    '\\b(\\d+(?:\\.\\d+)?)\\b'                                                     // 6 tal
+].join('|'), 'g');
+const TOKEN_CLASSES = ['', 'tok-comment', 'tok-string', 'tok-tag', 'tok-attr', 'tok-keyword', 'tok-number'];
+
+/**
+ * Färglägger ett kodexempel. Allt escapas, så resultatet kan läggas direkt i <pre><code>.
+ */
+function highlightCode(code: string): string {
+    let html = '';
+    let last = 0;
+    for (const match of code.matchAll(TOKENS)) {
+        const group = match.findIndex((value, index) => index > 0 && value !== undefined);
+        html += escapeHtml(code.slice(last, match.index)) + `<span class="${TOKEN_CLASSES[group]}">${escapeHtml(match[0])}</span>`;
+        last = (match.index ?? 0) + match[0].length;
+    }
+    return html + escapeHtml(code.slice(last));
+}
+
+function principleOf(report: ScanReport): string {
+    const principle = report.wcagCriteria.split('.')[0];
+    return ['1', '2', '3', '4'].includes(principle) ? principle : NOT_MAPPED;
+}
+
+function chapterOf(report: ScanReport): string {
+    const chapter = report.en301549Criteria.split('.')[0];
+    return /^\d+$/.test(chapter) ? chapter : NOT_MAPPED;
+}
+
+function collectRules(pages: ScanResult[], select: (page: ScanResult) => ScanReport[] = page => page.reports): RuleEntry[] {
+    const rules = new Map<string, RuleEntry>();
+    for (const page of pages) {
+        for (const report of select(page)) {
+            let entry = rules.get(report.ruleId);
+            if (!entry) {
+                entry = { report, principle: principleOf(report), chapter: chapterOf(report), pages: [] };
+                rules.set(report.ruleId, entry);
+            }
+            entry.pages.push({ url: page.url, step: page.step, nodes: report.failingNodes ?? [] });
+        }
+    }
+    // Högst risk först, sedan fler drabbade element
+    const nodeCount = (entry: RuleEntry) => entry.pages.reduce((sum, page) => sum + page.nodes.length, 0);
+    return Array.from(rules.values()).sort((a, b) =>
+        RISKS.indexOf(a.report.holmdigitalInsight.diggRisk) - RISKS.indexOf(b.report.holmdigitalInsight.diggRisk)
+        || nodeCount(b) - nodeCount(a));
+}
+
+const RISK_KEYS = {
+    critical: 'html.risk_critical',
+    high: 'html.risk_high',
+    medium: 'html.risk_medium',
+    low: 'html.risk_low'
+} as const;
+
+const PRINCIPLE_KEYS = {
+    '1': 'html.principle_1',
+    '2': 'html.principle_2',
+    '3': 'html.principle_3',
+    '4': 'html.principle_4'
+} as const;
+
+function principleLabel(principle: string): string {
+    return t(PRINCIPLE_KEYS[principle as keyof typeof PRINCIPLE_KEYS] ?? 'html.not_mapped');
+}
+
+function chapterLabel(chapter: string): string {
+    return chapter === NOT_MAPPED ? t('html.not_mapped') : t('html.chapter', { chapter });
+}
+
+function renderFilter(name: string, legend: string, entries: RuleEntry[], valueOf: (entry: RuleEntry) => string, label: (value: string) => string, order: string[]): string {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => counts.set(valueOf(entry), (counts.get(valueOf(entry)) ?? 0) + 1));
+    const values = Array.from(counts.keys()).sort((a, b) => (order.indexOf(a) + 1 || 99) - (order.indexOf(b) + 1 || 99) || a.localeCompare(b, undefined, { numeric: true }));
+    return `
+            <fieldset>
+                <legend>${escapeHtml(legend)}</legend>
+                ${values.map(value => `<label><input type="checkbox" name="${name}" value="${escapeHtml(value)}" checked> ${escapeHtml(label(value))} <span class="count">${counts.get(value)}</span></label>`).join('')}
+            </fieldset>`;
+}
+
+/**
+ * Bild eller, om den inte fick plats i rapporten, sökvägen till filen
+ */
+function renderImage(file: string, alt: string, images: ReportImages): string {
+    const src = images[file];
+    return src
+        ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" loading="lazy">`
+        : `<div class="screenshot-omitted">${escapeHtml(t('report.screenshot_omitted', { path: file }))}</div>`;
+}
+
+function renderNode(node: FailingNode, images: ReportImages): string {
+    return `
+                    <li>
+                        <div class="selector">${node.marker ? `<span class="marker">${node.marker}</span>` : ''}<code>${escapeHtml(node.target)}</code><button type="button" class="copy" data-selector="${escapeHtml(node.target)}" data-copied="${escapeHtml(t('html.copied'))}">${escapeHtml(t('html.copy'))}</button></div>
+                        ${node.frame ? `<div class="frame">${escapeHtml(t('html.in_frame', { url: node.frame }))}</div>` : ''}
+                        <pre class="snippet">${escapeHtml(node.html)}</pre>
+                        ${node.failureSummary ? `<div class="failure">${escapeHtml(node.failureSummary)}</div>` : ''}
+                        ${node.screenshot ? `<figure class="node-screenshot">${renderImage(node.screenshot, node.target, images)}</figure>` : ''}
+                    </li>`;
+}
+
+function renderRule(entry: RuleEntry, multiPage: boolean, images: ReportImages): string {
+    const { report } = entry;
+    const risk = report.holmdigitalInsight.diggRisk;
+    const nodeCount = entry.pages.reduce((sum, page) => sum + page.nodes.length, 0);
+    const { remediation } = report;
+    // Tolkningen finns på regeldatabasens språk (swedishInterpretation, germanInterpretation, ...)
+    const insight = report.holmdigitalInsight.swedishInterpretation
+        ?? Object.entries(report.holmdigitalInsight).find(([key, value]) => key.endsWith('Interpretation') && typeof value === 'string')?.[1];
+
+    return `
+        <article class="violation" id="rule-${escapeHtml(report.ruleId)}" data-risk="${risk}" data-principle="${entry.principle}" data-chapter="${escapeHtml(entry.chapter)}">
+            <header>
+                <h3>${escapeHtml(report.ruleId)}</h3>
+                <span class="badge badge-${risk}">${escapeHtml(t(RISK_KEYS[risk]))}</span>
+            </header>
+            <div class="meta">
+                WCAG ${escapeHtml(report.wcagCriteria)} • EN 301 549 ${escapeHtml(report.en301549Criteria)}${report.dosLagenReference ? ` • ${escapeHtml(report.dosLagenReference)}` : ''}${multiPage ? ` • ${escapeHtml(t('html.on_pages', { count: entry.pages.length }))}` : ''}
+            </div>
+            ${insight ? `<p>${escapeHtml(insight)}</p>` : ''}
+            ${nodeCount > 0 ? `
+            <details>
+                <summary>${escapeHtml(t('html.elements', { count: nodeCount }))}</summary>
+                ${entry.pages.filter(page => page.nodes.length > 0).map(page => `
+                ${multiPage ? `<div class="page">${escapeHtml(page.step ? `${page.step} – ${page.url}` : page.url)}</div>` : ''}
+                <ul class="nodes">${page.nodes.map(node => renderNode(node, images)).join('')}
+                </ul>`).join('')}
+            </details>` : ''}
+            <section class="remediation">
+                <h4>${escapeHtml(t('html.remediation'))}</h4>
+                <p>${escapeHtml(remediation.description)}</p>
+                ${remediation.technicalGuidance ? `<p>${escapeHtml(remediation.technicalGuidance)}</p>` : ''}
+                ${remediation.component ? `<p>${escapeHtml(t('report.use'))} <strong>${escapeHtml(remediation.component)}</strong></p>` : ''}
+                ${remediation.codeExample ? `
+                <div class="code-label">${escapeHtml(t('html.code_example'))}</div>
+                <pre class="code"><code>${highlightCode(remediation.codeExample)}</code></pre>` : ''}
+            </section>
+        </article>`;
+}
+
+/**
+ * Element som axe inte kunde avgöra – samma uppställning som bristerna, men utan risk och åtgärd
+ */
+function renderReviewRule(entry: RuleEntry, multiPage: boolean, images: ReportImages): string {
+    const { report } = entry;
+    const nodeCount = entry.pages.reduce((sum, page) => sum + page.nodes.length, 0);
+    return `
+        <article class="review" id="review-${escapeHtml(report.ruleId)}">
+            <header><h3>${escapeHtml(report.ruleId)}</h3></header>
+            <div class="meta">
+                WCAG ${escapeHtml(report.wcagCriteria)} • EN 301 549 ${escapeHtml(report.en301549Criteria)}${multiPage ? ` • ${escapeHtml(t('html.on_pages', { count: entry.pages.length }))}` : ''}
+            </div>
+            ${report.holmdigitalInsight.reasoning ? `<p>${escapeHtml(String(report.holmdigitalInsight.reasoning))}</p>` : ''}
+            <details>
+                <summary>${escapeHtml(t('html.elements', { count: nodeCount }))}</summary>
+                ${entry.pages.filter(page => page.nodes.length > 0).map(page => `
+                ${multiPage ? `<div class="page">${escapeHtml(page.step ? `${page.step} – ${page.url}` : page.url)}</div>` : ''}
+                <ul class="nodes">${page.nodes.map(node => renderNode(node, images)).join('')}
+                </ul>`).join('')}
+            </details>
+        </article>`;
+}
+
+/**
+ * Godkända regler (axe passes) som bevis, summerade över sidorna
+ */
+function renderPasses(pages: ScanResult[], multiPage: boolean): string {
+    const passes = new Map<string, { wcagCriteria: string; nodes: number; pages: number }>();
+    for (const pass of pages.flatMap(page => page.passes ?? [])) {
+        const entry = passes.get(pass.ruleId) ?? { wcagCriteria: pass.wcagCriteria, nodes: 0, pages: 0 };
+        passes.set(pass.ruleId, { ...entry, nodes: entry.nodes + pass.nodes, pages: entry.pages + 1 });
+    }
+    if (passes.size === 0) return '';
+    return `
+        <details class="passes">
+            <summary>${escapeHtml(t('report.passed_rules', { count: passes.size }))}</summary>
+            <p>${escapeHtml(t('report.passed_note'))}</p>
+            <ul>${Array.from(passes.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([ruleId, entry]) =>
+                `<li><strong>${escapeHtml(ruleId)}</strong> • WCAG ${escapeHtml(entry.wcagCriteria)} • ${escapeHtml(t('html.elements', { count: entry.nodes }))}${multiPage ? ` • ${escapeHtml(t('html.on_pages', { count: entry.pages }))}` : ''}</li>`).join('')}</ul>
+        </details>`;
+}
+
+// Filtrering och kopiering – ES5 utan beroenden, så att filen fungerar i alla webbläsare offline
+const SCRIPT = `
+(function () {
+    var form = document.getElementById('filters');
+    var cards = Array.prototype.slice.call(document.querySelectorAll('.violation'));
+    var counter = document.getElementById('counter');
+    var empty = document.getElementById('no-matches');
+    if (!form) return;
+
+    function checked(name) {
+        return Array.prototype.map.call(form.querySelectorAll('input[name="' + name + '"]:checked'), function (input) { return input.value; });
+    }
+
+    function update() {
+        var risks = checked('risk'), principles = checked('principle'), chapters = checked('chapter');
+        var shown = 0;
+        cards.forEach(function (card) {
+            var visible = risks.indexOf(card.getAttribute('data-risk')) !== -1
+                && principles.indexOf(card.getAttribute('data-principle')) !== -1
+                && chapters.indexOf(card.getAttribute('data-chapter')) !== -1;
+            card.hidden = !visible;
+            if (visible) shown++;
+        });
+        counter.textContent = counter.getAttribute('data-template').replace('{shown}', shown).replace('{total}', cards.length);
+        empty.hidden = shown !== 0;
+    }
+
+    function copy(text, done) {
+        if (navigator.clipboard && window.isSecureContext) {
+            navigator.clipboard.writeText(text).then(done, function () {});
+            return;
+        }
+        var area = document.createElement('textarea');
+        area.value = text;
+        area.setAttribute('readonly', '');
+        area.style.position = 'absolute';
+        area.style.left = '-9999px';
+        document.body.appendChild(area);
+        area.select();
+        try { if (document.execCommand('copy')) done(); } catch (e) {}
+        document.body.removeChild(area);
+    }
+
+    form.addEventListener('change', update);
+    form.addEventListener('reset', function () { setTimeout(update, 0); });
+    document.addEventListener('click', function (event) {
+        var button = event.target.closest && event.target.closest('button.copy');
+        if (!button) return;
+        copy(button.getAttribute('data-selector'), function () {
+            var label = button.textContent;
+            button.textContent = button.getAttribute('data-copied');
+            setTimeout(function () { button.textContent = label; }, 1500);
+        });
+    });
+    update();
+})();
+`;
+
+/**
+ * Delpoäng per princip och avdragen bakom score, störst först
+ */
+function renderScoreBreakdown(breakdown: ScoreBreakdown, multiPage: boolean): string {
+    const deductions = [...breakdown.deductions].sort((a, b) => b.points - a.points);
+    return `
+        <details class="score-breakdown">
+            <summary>${escapeHtml(t('report.score_breakdown'))}</summary>
+            <h3>${escapeHtml(t('report.principle_scores'))}</h3>
+            <ul class="principles">${WCAG_PRINCIPLES.map((principle, index) => `<li><span>${escapeHtml(principleLabel(String(index + 1)))}</span> <strong>${breakdown.principles[principle]}</strong></li>`).join('')}</ul>
+            <p>${escapeHtml(t('report.score_explanation', { model: breakdown.model }))}</p>
+            ${deductions.length > 0 ? `
+            <table>
+                <thead><tr><th scope="col">${escapeHtml(t('report.deduction_rule'))}</th>${multiPage ? `<th scope="col">${escapeHtml(t('report.deduction_page'))}</th>` : ''}<th scope="col">${escapeHtml(t('report.deduction_factors'))}</th><th scope="col">${escapeHtml(t('report.deduction_points'))}</th></tr></thead>
+                <tbody>${deductions.map(deduction => `
+                    <tr><td><a href="#rule-${escapeHtml(deduction.ruleId)}">${escapeHtml(deduction.ruleId)}</a></td>${multiPage ? `<td class="url">${escapeHtml(deduction.url ?? '')}</td>` : ''}<td>${escapeHtml(formatScoreFactors(deduction.factors))}</td><td class="points">−${deduction.points}</td></tr>`).join('')}
+                </tbody>
+            </table>` : ''}
+        </details>`;
+}
+
+/**
+ * Helsidesbilderna med numrerade markörer, hopfällda så att de inte tar över rapporten
+ */
+function renderPageScreenshots(pages: ScanResult[], multiPage: boolean, images: ReportImages): string {
+    const withImages = pages.filter(page => page.screenshot);
+    if (withImages.length === 0) return '';
+    return `
+        <h2>${escapeHtml(t('report.page_screenshot'))}</h2>
+        ${withImages.map(page => `
+        <details class="page-screenshot">
+            <summary>${escapeHtml(multiPage ? (page.step ? `${page.step} – ${page.url}` : page.url) : t('html.show_screenshot'))}</summary>
+            <figure>${renderImage(page.screenshot!, t('report.page_screenshot'), images)}</figure>
+        </details>`).join('')}`;
+}
+
+/**
+ * Interaktiv HTML-rapport för en sida, en crawl eller ett användarflöde.
+ * `images` från loadReportImages bäddar in skärmdumparna.
+ */
+export function generateInteractiveReportHTML(input: ScanResult | SiteScanResult, images: ReportImages = {}): string {
+    const pages = toPages(input);
+    const multiPage = 'pages' in input;
+    const target = 'pages' in input ? input.rootUrl : input.url;
+    const standard = pages[0]?.standard ?? 'dos-lagen';
+    const standardName = getStandardProfile(standard).name;
+    const rules = collectRules(pages);
+    const review = collectRules(pages, page => page.needsReview ?? []);
+    const outOfScope = Array.from(new Map(pages.flatMap(page => page.outOfScope).map(report => [report.ruleId, report])).values());
+    const scoreColor = input.score > 90 ? '#15803d' : input.score > 70 ? '#a16207' : '#b91c1c';
+    const generated = new Date(input.timestamp).toLocaleString(getCurrentLang(), { dateStyle: 'long', timeStyle: 'short' });
+
+    return `<!DOCTYPE html>
+<html lang="${getCurrentLang()}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(t('report.title', { url: target }))}</title>
+    <style>
+        body {
+            font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+            color: #0f172a;
+            background: #ffffff;
+            margin: 0 auto;
+            max-width: 1100px;
+            padding: 32px;
+            line-height: 1.5;
+        }
+        .top { display: flex; justify-content: space-between; gap: 2rem; border-bottom: 2px solid #f1f5f9; padding-bottom: 1.5rem; margin-bottom: 2rem; }
+        .brand { font-size: 1.5rem; font-weight: 700; }
+        .brand span { color: #0369a1; }
+        .top .meta { text-align: right; color: #475569; font-size: 0.875rem; word-break: break-all; }
+        .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 1rem; margin-bottom: 2rem; }
+        h1 { font-size: 1.5rem; margin: 0 0 1.5rem; word-break: break-all; }
+        .card { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; padding: 1rem 1.25rem; }
+        .card .label { font-size: 0.875rem; color: #475569; }
+        .card .value { font-size: 1.75rem; font-weight: 700; }
+        #filters { display: flex; flex-wrap: wrap; gap: 1rem; align-items: flex-start; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; padding: 1rem; margin-bottom: 1rem; }
+        #filters h2 { width: 100%; font-size: 1rem; margin: 0; }
+        fieldset { border: 1px solid #e2e8f0; border-radius: 8px; padding: 0.5rem 0.75rem; margin: 0; background: #ffffff; }
+        legend { font-weight: 600; font-size: 0.875rem; padding: 0 0.25rem; }
+        fieldset label { display: block; font-size: 0.875rem; cursor: pointer; }
+        .count { color: #64748b; font-size: 0.75rem; }
+        #filters button[type="reset"] { align-self: flex-end; }
+        button { font: inherit; font-size: 0.8125rem; border: 1px solid #cbd5e1; background: #ffffff; border-radius: 6px; padding: 0.125rem 0.5rem; cursor: pointer; }
+        button:hover { background: #f1f5f9; }
+        button:focus-visible, summary:focus-visible, input:focus-visible { outline: 3px solid #0369a1; outline-offset: 2px; }
+        #counter { color: #475569; font-size: 0.875rem; margin: 0 0 1rem; }
+        .violation, .review { border: 1px solid #e2e8f0; border-radius: 8px; padding: 1.25rem; margin-bottom: 1rem; }
+        .violation header, .review header { display: flex; justify-content: space-between; align-items: flex-start; gap: 1rem; }
+        .violation h3, .review h3 { margin: 0; font-size: 1.125rem; }
+        .violation .meta, .review .meta { color: #475569; font-size: 0.875rem; margin: 0.25rem 0 0.75rem; }
+        .review { border-left: 4px solid #d97706; }
+        .needs-review { margin-top: 2rem; }
+        .passes { margin-top: 2rem; font-size: 0.875rem; color: #475569; }
+        .passes li { margin-bottom: 0.25rem; }
+        .badge { display: inline-block; padding: 0.125rem 0.75rem; border-radius: 9999px; font-size: 0.75rem; font-weight: 600; text-transform: uppercase; white-space: nowrap; }
+        .badge-critical { background: #fef2f2; color: #b91c1c; border: 1px solid #fecaca; }
+        .badge-high { background: #fffbeb; color: #b45309; border: 1px solid #fde68a; }
+        .badge-medium { background: #fefce8; color: #854d0e; border: 1px solid #fef08a; }
+        .badge-low { background: #f8fafc; color: #475569; border: 1px solid #e2e8f0; }
+        details { margin: 0.75rem 0; }
+        summary { cursor: pointer; font-weight: 600; font-size: 0.9375rem; }
+        .page { font-size: 0.8125rem; color: #475569; margin: 0.75rem 0 0.25rem; word-break: break-all; }
+        .nodes { list-style: none; padding: 0; margin: 0.5rem 0 0; }
+        .nodes li { border-left: 3px solid #e2e8f0; padding: 0.25rem 0 0.25rem 0.75rem; margin-bottom: 0.75rem; }
+        .selector { display: flex; gap: 0.5rem; align-items: center; flex-wrap: wrap; }
+        .selector code { color: #0e7490; word-break: break-all; }
+        .frame { color: #6b21a8; font-size: 0.8125rem; }
+        .snippet, .code { background: #0f172a; color: #e2e8f0; border-radius: 6px; padding: 0.75rem; overflow-x: auto; font-size: 0.8125rem; white-space: pre-wrap; word-break: break-word; }
+        .failure { color: #475569; font-size: 0.8125rem; white-space: pre-line; }
+        .score-breakdown { border: 1px solid #e2e8f0; border-radius: 12px; padding: 0.75rem 1.25rem; margin: -1rem 0 2rem; }
+        .score-breakdown h3 { font-size: 1rem; margin: 1rem 0 0.5rem; }
+        .principles { list-style: none; padding: 0; margin: 0; display: grid; grid-template-columns: repeat(4, 1fr); gap: 0.5rem; }
+        .principles li { background: #f8fafc; border-radius: 8px; padding: 0.5rem 0.75rem; font-size: 0.875rem; display: flex; justify-content: space-between; }
+        .score-breakdown p { font-size: 0.875rem; color: #475569; }
+        .score-breakdown table { width: 100%; border-collapse: collapse; font-size: 0.8125rem; }
+        .score-breakdown th, .score-breakdown td { text-align: left; padding: 0.375rem 0.5rem; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+        .score-breakdown .url { word-break: break-all; }
+        .score-breakdown .points { text-align: right; white-space: nowrap; font-weight: 600; color: #b91c1c; }
+        .marker { background: #dc2626; color: #ffffff; font-weight: 700; font-size: 0.75rem; border-radius: 3px; padding: 0 0.35rem; }
+        figure { margin: 0.5rem 0 0; }
+        figure img { display: block; max-width: 100%; border: 1px solid #e2e8f0; border-radius: 4px; }
+        .node-screenshot img { max-height: 360px; }
+        .page-screenshot { margin-bottom: 0.5rem; }
+        .screenshot-omitted { font-size: 0.8125rem; color: #475569; font-style: italic; word-break: break-all; }
+        .remediation { background: #f0fdf4; border: 1px solid #bbf7d0; border-radius: 6px; padding: 0.75rem 1rem; margin-top: 0.75rem; }
+        .remediation h4 { margin: 0 0 0.25rem; color: #166534; font-size: 0.875rem; }
+        .remediation p { margin: 0.25rem 0; font-size: 0.875rem; color: #14532d; }
+        .code-label { font-weight: 600; font-size: 0.8125rem; color: #166534; margin-top: 0.5rem; }
+        .tok-comment { color: #94a3b8; font-style: italic; }
+        .tok-string { color: #86efac; }
+        .tok-tag { color: #7dd3fc; }
+        .tok-attr { color: #fcd34d; }
+        .tok-keyword { color: #f9a8d4; }
+        .tok-number { color: #fdba74; }
+        .out-of-scope { margin-top: 2rem; font-size: 0.875rem; color: #475569; }
+        .out-of-scope li { margin-bottom: 0.25rem; }
+        footer { margin-top: 3rem; text-align: center; color: #64748b; font-size: 0.75rem; border-top: 1px solid #f1f5f9; padding-top: 1.5rem; }
+        [hidden] { display: none !important; }
+        @media print {
+            #filters, #counter, .copy { display: none; }
+            .violation, .review { page-break-inside: avoid; }
+        }
+    </style>
+</head>
+<body>
+    <div class="top">
+        <div class="brand">Holm<span>Digital</span></div>
+        <div class="meta">
+            <div>${escapeHtml(t('report.scan_target', { url: target }))}</div>
+            <div>${escapeHtml(t('report.generated', { date: generated }))}</div>
+            <div>${escapeHtml(t('report.standard', { standard: standardName }))}</div>
+            ${multiPage ? `<div>${escapeHtml(t('html.pages', { count: pages.length }))}</div>` : ''}
+        </div>
+    </div>
+
+    <main>
+        <h1>${escapeHtml(t('report.title', { url: target }))}</h1>
+        <div class="summary">
+            <div class="card"><div class="label">${escapeHtml(t('report.overall_score'))}</div><div class="value" style="color: ${scoreColor};">${Math.round(input.score)}</div></div>
+            <div class="card"><div class="label">${escapeHtml(t('report.critical_issues'))}</div><div class="value" style="color: #b91c1c;">${input.stats.critical}</div></div>
+            <div class="card"><div class="label">${escapeHtml(t('report.high_issues'))}</div><div class="value" style="color: #b45309;">${input.stats.high}</div></div>
+            <div class="card"><div class="label">${escapeHtml(t('report.total_issues'))}</div><div class="value">${input.stats.total}</div></div>
+        </div>
+
+        ${input.scoreBreakdown ? renderScoreBreakdown(input.scoreBreakdown, multiPage) : ''}
+        ${renderPageScreenshots(pages, multiPage, images)}
+
+        <h2>${escapeHtml(t('report.detailed_violations'))}</h2>
+        ${rules.length === 0 ? `<p>${escapeHtml(t('html.no_violations'))}</p>` : `
+        <form id="filters" aria-labelledby="filters-heading">
+            <h2 id="filters-heading">${escapeHtml(t('html.filters'))}</h2>
+            ${renderFilter('risk', t('html.filter_risk'), rules, entry => entry.report.holmdigitalInsight.diggRisk, value => t(RISK_KEYS[value as DiggRisk]), RISKS)}
+            ${renderFilter('principle', t('html.filter_principle'), rules, entry => entry.principle, principleLabel, ['1', '2', '3', '4'])}
+            ${renderFilter('chapter', t('html.filter_chapter'), rules, entry => entry.chapter, chapterLabel, [])}
+            <button type="reset">${escapeHtml(t('html.show_all'))}</button>
+        </form>
+        <p id="counter" role="status" data-template="${escapeHtml(t('html.showing', { shown: '{shown}', total: '{total}' }))}"></p>
+        <p id="no-matches" hidden>${escapeHtml(t('html.no_matches'))}</p>
+        ${rules.map(entry => renderRule(entry, multiPage, images)).join('')}`}
+
+        ${review.length > 0 ? `
+        <section class="needs-review">
+            <h2>${escapeHtml(t('report.needs_review'))}</h2>
+            <p>${escapeHtml(t('report.needs_review_note'))}</p>
+            ${review.map(entry => renderReviewRule(entry, multiPage, images)).join('')}
+        </section>` : ''}
+
+        ${renderPasses(pages, multiPage)}
+
+        ${outOfScope.length > 0 ? `
+        <section class="out-of-scope">
+            <h2>${escapeHtml(t('report.out_of_scope', { standard: standardName }))}</h2>
+            <p>${escapeHtml(t('report.out_of_scope_note'))}</p>
+            <ul>${outOfScope.map(report => `<li><strong>${escapeHtml(report.ruleId)}</strong> • WCAG ${escapeHtml(report.wcagCriteria)} • ${escapeHtml(report.remediation.description)}</li>`).join('')}</ul>
+        </section>` : ''}
+    </main>
+
+    <footer>${escapeHtml(t('report.footer'))}</footer>
+    <script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
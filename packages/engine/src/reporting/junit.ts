@@ -0,0 +1,168 @@
+/**
+ * JUnit XML Export
+ * En testsuite per scannad URL och ett testfall per konvergensregel i vald standard,
+ * så att tillgänglighetsregressioner syns i samma vy som enhetstesterna i CI.
+ */
+
+import { getAllConvergenceRules, ConvergenceRule } from '@holmdigital/standards';
+import type { ScanResult, ScanReport } from '../core/regulatory-scanner';
+import type { SiteScanResult } from '../core/site-crawler';
+import { getStandardProfile } from '../core/standard-profiles';
+import { getCurrentLang } from '../i18n';
+import { toPages } from './report-utils';
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Kontrolltecken är inte tillåtna i XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+interface TestCase {
+    name: string;
+    classname: string;
+    failure?: { message: string; type: string; body: string };
+    error?: { message: string; type: string };
+    skipped?: string;
+}
+
+/**
+ * Regler i standarden, en per ruleId (databasen kan innehålla dubbletter)
+ */
+function rulesInScope(result: ScanResult): ConvergenceRule[] {
+    const profile = getStandardProfile(result.standard);
+    const seen = new Set<string>();
+
+    return getAllConvergenceRules(getCurrentLang()).filter(rule => {
+        if (seen.has(rule.ruleId) || !profile.appliesTo(rule)) return false;
+        seen.add(rule.ruleId);
+        return true;
+    });
+}
+
+function failureFor(reports: ScanReport[]) {
+    const report = reports[0];
+    const nodes = reports.flatMap(r => r.failingNodes ?? []);
+    const body = [
+        ...nodes.map(node => `${node.target}${node.frame ? ` (frame: ${node.frame})` : ''}${node.failureSummary ? `\n  ${node.failureSummary.replace(/\n/g, '\n  ')}` : ''}`),
+        '',
+        `Remediation: ${report.remediation.description}`,
+        report.remediation.technicalGuidance,
+        report.remediation.component ? `Component: ${report.remediation.component}` : ''
+    ].filter(Boolean).join('\n');
+
+    return {
+        message: `${nodes.length} element(s) fail WCAG ${report.wcagCriteria} (${report.holmdigitalInsight.diggRisk})`,
+        type: report.holmdigitalInsight.diggRisk,
+        body
+    };
+}
+
+function buildTestCases(result: ScanResult): TestCase[] {
+    // Flera axe-fynd kan mappas till samma regel – samla dem i ett testfall
+    const reportsByRule = new Map<string, ScanReport[]>();
+    for (const report of result.reports) {
+        reportsByRule.set(report.ruleId, [...(reportsByRule.get(report.ruleId) ?? []), report]);
+    }
+    const cases: TestCase[] = [];
+
+    for (const rule of rulesInScope(result)) {
+        const reports = reportsByRule.get(rule.ruleId);
+        reportsByRule.delete(rule.ruleId);
+
+        const testCase: TestCase = {
+            name: `${rule.ruleId}: ${rule.wcagTitle}`,
+            classname: `WCAG ${rule.wcagCriteria}`
+        };
+
+        if (reports) {
+            testCase.failure = failureFor(reports);
+        } else if (!rule.testability.automated) {
+            testCase.skipped = 'Requires manual verification';
+        }
+        cases.push(testCase);
+    }
+
+    // Fynd som inte finns i databasen men ändå omfattas av standarden
+    for (const [ruleId, reports] of reportsByRule) {
+        cases.push({
+            name: ruleId,
+            classname: `WCAG ${reports[0].wcagCriteria}`,
+            failure: failureFor(reports)
+        });
+    }
+
+    return cases;
+}
+
+function renderTestCases(cases: TestCase[]): string {
+    return cases.map(c => {
+        const open = `    <testcase name="${escapeXml(c.name)}" classname="${escapeXml(c.classname)}" time="0"`;
+        if (c.failure) {
+            return `${open}>\n` +
+                `      <failure message="${escapeXml(c.failure.message)}" type="${escapeXml(c.failure.type)}">${escapeXml(c.failure.body)}</failure>\n` +
+                `    </testcase>`;
+        }
+        if (c.error) {
+            return `${open}>\n      <error message="${escapeXml(c.error.message)}" type="${escapeXml(c.error.type)}"/>\n    </testcase>`;
+        }
+        if (c.skipped) {
+            return `${open}>\n      <skipped message="${escapeXml(c.skipped)}"/>\n    </testcase>`;
+        }
+        return `${open}/>`;
+    }).join('\n');
+}
+
+function renderTestSuite(result: ScanResult, cases: TestCase[], id: number): string {
+    const failures = cases.filter(c => c.failure).length;
+    const skipped = cases.filter(c => c.skipped).length;
+    const renderedCases = renderTestCases(cases);
+
+    return `  <testsuite id="${id}" name="${escapeXml(result.step ? `${result.step} (${result.url})` : result.url)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}" timestamp="${escapeXml(result.timestamp)}" time="0">\n` +
+        `    <properties>\n` +
+        `      <property name="standard" value="${escapeXml(getStandardProfile(result.standard).name)}"/>\n` +
+        `      <property name="score" value="${result.score}"/>\n` +
+        `      <property name="complianceStatus" value="${result.complianceStatus}"/>\n` +
+        `    </properties>\n` +
+        `${renderedCases}\n` +
+        `  </testsuite>`;
+}
+
+/**
+ * Sidor som inte gick att scanna (timeout, HTTP-fel) blir en testsuite med ett error-testfall,
+ * så att de inte försvinner ur CI-vyn
+ */
+function renderErrorSuite(failed: { url: string; error: string }, id: number, timestamp: string): string {
+    const testCase: TestCase = {
+        name: failed.url,
+        classname: 'Scan',
+        error: { message: failed.error, type: 'ScanError' }
+    };
+    return `  <testsuite id="${id}" name="${escapeXml(failed.url)}" tests="1" failures="0" errors="1" skipped="0" timestamp="${escapeXml(timestamp)}" time="0">\n` +
+        `${renderTestCases([testCase])}\n` +
+        `  </testsuite>`;
+}
+
+/**
+ * Genererar JUnit XML för ett eller flera scannade sidor
+ */
+export function generateJUnit(input: ScanResult | SiteScanResult): string {
+    const pages = toPages(input);
+    const failedPages = 'pages' in input ? input.failedPages : [];
+    const casesPerPage = pages.map(buildTestCases);
+    const suites = pages.map((page, index) => renderTestSuite(page, casesPerPage[index], index));
+    suites.push(...failedPages.map((failed, index) => renderErrorSuite(failed, pages.length + index, input.timestamp)));
+
+    const totals = casesPerPage.flat();
+    const failures = totals.filter(c => c.failure).length;
+    const skipped = totals.filter(c => c.skipped).length;
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<testsuites name="hd-a11y-scan" tests="${totals.length + failedPages.length}" failures="${failures}" errors="${failedPages.length}" skipped="${skipped}">\n` +
+        `${suites.join('\n')}\n` +
+        `</testsuites>\n`;
+}
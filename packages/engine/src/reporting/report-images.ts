@@ -0,0 +1,69 @@
+/**
+ * Report Images
+ * Bäddar in skärmdumparna från ScanResult i HTML- och PDF-rapporterna som data-URI:er,
+ * upp till en storleksgräns per rapport.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DiggRisk } from '@holmdigital/standards';
+import type { ScanResult } from '../core/regulatory-scanner';
+import type { SiteScanResult } from '../core/site-crawler';
+import { toPages } from './report-utils';
+
+export const DEFAULT_MAX_EMBED_BYTES = 10 * 1024 * 1024;
+
+export interface ReportImageOptions {
+    maxBytes?: number;    // Total storlek för inbäddade bilder (base64), default 10 MB
+    relativeTo?: string;  // Katalogen rapporten skrivs till – bilder över gränsen länkas då i stället
+}
+
+/**
+ * Bildkälla per sökväg i ScanResult. Bilder som varken bäddats in eller länkats saknas.
+ */
+export type ReportImages = Record<string, string>;
+
+const RISK_ORDER: DiggRisk[] = ['critical', 'high', 'medium', 'low'];
+const MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp'
+};
+
+/**
+ * Läser in skärmdumparna för rapporten. Elementbilder går före helsidesbilder och
+ * allvarligare brister före mindre allvarliga, så att gränsen fylls med det viktigaste först.
+ */
+export async function loadReportImages(input: ScanResult | SiteScanResult, options: ReportImageOptions = {}): Promise<ReportImages> {
+    const pages = toPages(input);
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_EMBED_BYTES;
+
+    const nodeImages = pages
+        .flatMap(page => page.reports.flatMap(report => (report.failingNodes ?? [])
+            .flatMap(node => node.screenshot ? [{ file: node.screenshot, risk: RISK_ORDER.indexOf(report.holmdigitalInsight.diggRisk) }] : [])))
+        .sort((a, b) => a.risk - b.risk)
+        .map(image => image.file);
+    const pageImages = pages.flatMap(page => page.screenshot ? [page.screenshot] : []);
+
+    const images: ReportImages = {};
+    let used = 0;
+    for (const file of Array.from(new Set([...nodeImages, ...pageImages]))) {
+        let size: number;
+        try {
+            size = (await fs.stat(file)).size;
+        } catch {
+            continue; // Bilden har flyttats eller tagits bort
+        }
+
+        const encodedSize = Math.ceil(size / 3) * 4;
+        if (used + encodedSize <= maxBytes) {
+            const mimeType = MIME_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+            images[file] = `data:${mimeType};base64,${(await fs.readFile(file)).toString('base64')}`;
+            used += encodedSize;
+        } else if (options.relativeTo) {
+            images[file] = path.relative(options.relativeTo, path.resolve(file)).split(path.sep).map(encodeURIComponent).join('/');
+        }
+    }
+    return images;
+}
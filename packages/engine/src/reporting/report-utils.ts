@@ -0,0 +1,35 @@
+/**
+ * Report Utils
+ * Hjälpfunktioner som delas av rapportgeneratorerna.
+ */
+
+import type { ScanResult } from '../core/regulatory-scanner';
+import type { SiteScanResult } from '../core/site-crawler';
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Sidorna i en eller flera scanningar
+ */
+export function toPages(input: ScanResult | SiteScanResult | ScanResult[]): ScanResult[] {
+    if (Array.isArray(input)) return input;
+    return 'pages' in input ? input.pages : [input];
+}
+
+/**
+ * Sorterar klausul-ID:n numeriskt per nivå, så att 9.1.4.10 kommer efter 9.1.4.3
+ */
+export function compareClauses(a: string, b: string): number {
+    const [pa, pb] = [a.split('.').map(Number), b.split('.').map(Number)];
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+        const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
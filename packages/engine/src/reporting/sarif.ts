@@ -0,0 +1,187 @@
+/**
+ * SARIF 2.1.0 Export
+ * Gör scanresultat läsbara för code-scanning-vyer (t.ex. GitHub Code Scanning)
+ * bredvid andra statiska analysverktyg.
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { getConvergenceRule, DiggRisk } from '@holmdigital/standards';
+import type { ScanResult, ScanReport } from '../core/regulatory-scanner';
+import type { SiteScanResult } from '../core/site-crawler';
+import type { BaselineDiff } from '../core/baseline';
+import { getCurrentLang } from '../i18n';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifOptions {
+    /** Markerar resultat som new/unchanged enligt en baseline-jämförelse */
+    baselineDiff?: BaselineDiff;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = '@holmdigital/engine';
+const TOOL_URI = 'https://github.com/holmdigital/a11y-hd';
+
+/**
+ * DIGG-risk → SARIF-nivå
+ */
+export function diggRiskToSarifLevel(risk: DiggRisk): SarifLevel {
+    switch (risk) {
+        case 'critical':
+        case 'high':
+            return 'error';
+        case 'medium':
+            return 'warning';
+        default:
+            return 'note';
+    }
+}
+
+/**
+ * file:// blir en relativ sökväg (så att code-scanning kan länka till källfilen),
+ * http(s) behålls som absolut URI
+ */
+function toArtifactLocation(url: string): { uri: string; uriBaseId?: string } {
+    if (url.startsWith('file:')) {
+        const relative = path.relative(process.cwd(), fileURLToPath(url)).split(path.sep).join('/');
+        return { uri: relative, uriBaseId: '%SRCROOT%' };
+    }
+    return { uri: url };
+}
+
+function fingerprint(...parts: string[]): string {
+    return createHash('sha256').update(parts.join('|')).digest('hex');
+}
+
+function buildRule(report: ScanReport) {
+    const rule = getConvergenceRule(report.ruleId, getCurrentLang());
+    const title = rule?.wcagTitle ?? report.remediation.description;
+
+    const helpMarkdown = [
+        `**${report.remediation.description}**`,
+        '',
+        report.remediation.technicalGuidance,
+        '',
+        `- WCAG: ${report.wcagCriteria}${rule ? ` ${rule.wcagTitle} (Level ${rule.wcagLevel})` : ''}`,
+        `- EN 301 549: ${report.en301549Criteria}${rule ? ` ${rule.en301549Title}` : ''}`,
+        `- DOS-lagen: ${report.dosLagenReference}`,
+        report.remediation.component ? `- Component: \`${report.remediation.component}\`` : null,
+        report.remediation.codeExample ? `\n\`\`\`tsx\n${report.remediation.codeExample}\n\`\`\`` : null
+    ].filter(line => line !== null).join('\n');
+
+    return {
+        id: report.ruleId,
+        name: report.ruleId,
+        shortDescription: { text: `WCAG ${report.wcagCriteria}: ${title}` },
+        fullDescription: { text: report.remediation.description },
+        help: {
+            text: `${report.remediation.description}\n\n${report.remediation.technicalGuidance}`,
+            markdown: helpMarkdown
+        },
+        defaultConfiguration: {
+            level: diggRiskToSarifLevel(report.holmdigitalInsight.diggRisk)
+        },
+        properties: {
+            tags: [
+                'accessibility',
+                `wcag-${report.wcagCriteria}`,
+                `en301549-${report.en301549Criteria}`
+            ],
+            wcagCriteria: report.wcagCriteria,
+            wcagLevel: rule?.wcagLevel,
+            en301549Criteria: report.en301549Criteria,
+            dosLagenReference: report.dosLagenReference,
+            diggRisk: report.holmdigitalInsight.diggRisk,
+            eaaImpact: report.holmdigitalInsight.eaaImpact
+        }
+    };
+}
+
+/**
+ * Genererar en SARIF-logg: varje RegulatoryReport blir en regel och varje fallerande element ett resultat
+ */
+export function generateSarif(input: ScanResult | SiteScanResult, options: SarifOptions = {}) {
+    const isSite = 'pages' in input;
+    const pages: ScanResult[] = isSite ? input.pages : [input];
+
+    const newKeys = new Set(
+        (options.baselineDiff?.newViolations ?? []).map(entry => [entry.url ?? '', entry.step ?? '', entry.ruleId, entry.target].join('::'))
+    );
+
+    const rules: ReturnType<typeof buildRule>[] = [];
+    const ruleIndex = new Map<string, number>();
+    const results: any[] = [];
+
+    for (const page of pages) {
+        for (const report of page.reports) {
+            if (!ruleIndex.has(report.ruleId)) {
+                ruleIndex.set(report.ruleId, rules.length);
+                rules.push(buildRule(report));
+            }
+
+            const level = diggRiskToSarifLevel(report.holmdigitalInsight.diggRisk);
+            const nodes = report.failingNodes && report.failingNodes.length > 0
+                ? report.failingNodes
+                : [{ html: '', target: '', failureSummary: undefined }];
+
+            for (const node of nodes) {
+                const baselineKey = [isSite ? page.url : '', page.step ?? '', report.ruleId, node.target].join('::');
+
+                results.push({
+                    ruleId: report.ruleId,
+                    ruleIndex: ruleIndex.get(report.ruleId),
+                    level,
+                    message: {
+                        text: node.failureSummary || report.holmdigitalInsight.reasoning || report.remediation.description
+                    },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: toArtifactLocation(page.url),
+                            region: {
+                                startLine: 1,
+                                ...(node.html ? { snippet: { text: node.html } } : {})
+                            }
+                        },
+                        ...(node.target ? {
+                            logicalLocations: [{ fullyQualifiedName: node.target, kind: 'element' }]
+                        } : {})
+                    }],
+                    partialFingerprints: {
+                        'a11yTarget/v1': fingerprint(report.ruleId, page.url, ...(page.step ? [page.step] : []), node.target)
+                    },
+                    ...(options.baselineDiff ? { baselineState: newKeys.has(baselineKey) ? 'new' : 'unchanged' } : {}),
+                    properties: {
+                        pageUrl: page.url,
+                        step: page.step,
+                        selector: node.target || undefined,
+                        frame: node.frame
+                    }
+                });
+            }
+        }
+    }
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: TOOL_NAME,
+                    informationUri: TOOL_URI,
+                    rules
+                }
+            },
+            originalUriBaseIds: {
+                '%SRCROOT%': { uri: `${pathToFileURL(process.cwd()).href}/` }
+            },
+            invocations: [{
+                executionSuccessful: true,
+                endTimeUtc: input.timestamp
+            }],
+            results
+        }]
+    };
+}
@@ -0,0 +1,31 @@
+/**
+ * Gemensam körning för validate-schema.js och validate-data.js.
+ * Använder det byggda paketet (dist) – kör `npm run build` först.
+ */
+
+const path = require('path');
+
+function loadStandards() {
+    try {
+        return require(path.join(__dirname, '..', 'dist', 'index.js'));
+    } catch (error) {
+        console.error('Could not load dist/index.js – run `npm run build` first.');
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(2);
+    }
+}
+
+function runValidation(checks) {
+    const { validateDatabase, formatValidationResult } = loadStandards();
+    const result = validateDatabase({ checks });
+
+    console.log(`Checks: ${checks.join(', ')}`);
+    if (result.valid) {
+        console.log(formatValidationResult(result));
+        return;
+    }
+    console.error(formatValidationResult(result));
+    process.exitCode = 1;
+}
+
+module.exports = { runValidation };
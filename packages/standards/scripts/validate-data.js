@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+/**
+ * Validerar databasens innehåll: unika ruleIds, samma regler och kriterier i alla språk
+ * och att wcag-to-en301549.json stämmer med reglerna
+ */
+
+const { runValidation } = require('./run-validation');
+
+runValidation(['unique', 'locales', 'mapping']);
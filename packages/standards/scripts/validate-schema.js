@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * Validerar rules.*.json och wcag-to-en301549.json mot schema/convergence-schema.json
+ */
+
+const { runValidation } = require('./run-validation');
+
+runValidation(['schema']);
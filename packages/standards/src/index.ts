@@ -9,6 +9,7 @@ import rulesDe from '../data/rules.de.json';
 import rulesFr from '../data/rules.fr.json';
 import rulesEs from '../data/rules.es.json';
 import ictManualChecksData from '../data/ict-manual-checks.json';
+import { addRegisteredRules, getRegisteredRules, RuleSet } from './registry';
 
 import type {
     ConvergenceRule,
@@ -36,9 +37,14 @@ export type {
     EAAImpact,
     Remediation,
     Testability,
+    RuleSet,
 };
 
-function getData(lang: string = 'en'): ConvergenceRule[] {
+export { validateConvergenceRule, clearRegisteredRules } from './registry';
+export { validateDatabase, formatValidationResult, VALIDATION_CHECKS } from './validation';
+export type { ValidationCheck, ValidationIssue, ValidationResult, ValidationOptions } from './validation';
+
+function getBuiltInData(lang: string = 'en'): ConvergenceRule[] {
     switch (lang) {
         case 'sv': return rulesSv as ConvergenceRule[];
         case 'de': return rulesDe as ConvergenceRule[];
@@ -48,6 +54,23 @@ function getData(lang: string = 'en'): ConvergenceRule[] {
     }
 }
 
+function getData(lang: string = 'en'): ConvergenceRule[] {
+    const registered = getRegisteredRules(lang);
+    const builtIn = getBuiltInData(lang);
+    return registered.length > 0 ? [...builtIn, ...registered] : builtIn;
+}
+
+/**
+ * Register organisation-specific rules at runtime, per language.
+ * Every rule is validated against convergence-schema.json and may not reuse a built-in ruleId.
+ */
+export function registerConvergenceRules(ruleSet: RuleSet): void {
+    for (const [lang, rules] of Object.entries(ruleSet)) {
+        const builtIn = getBuiltInData(lang);
+        addRegisteredRules(lang, rules ?? [], ruleId => builtIn.some((r) => r.ruleId === ruleId));
+    }
+}
+
 /**
  * Get EN 301 549 mapping for a WCAG criteria
  */
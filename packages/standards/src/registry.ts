@@ -0,0 +1,71 @@
+/**
+ * Runtime registry for organisation-specific convergence rules
+ * Regler som registreras här slås ihop med databasen i alla uppslag (getConvergenceRule m.fl.)
+ */
+
+import Ajv, { ValidateFunction } from 'ajv';
+import convergenceSchema from '../schema/convergence-schema.json';
+import type { ConvergenceRule } from './types';
+
+/**
+ * Extra regler per språk, t.ex. { en: [...], sv: [...] }
+ */
+export type RuleSet = Partial<Record<string, ConvergenceRule[]>>;
+
+const registered = new Map<string, Map<string, ConvergenceRule>>();
+let validator: ValidateFunction | null = null;
+
+/**
+ * Validate a rule against convergence-schema.json. Returns a list of errors (empty = valid).
+ */
+export function validateConvergenceRule(rule: unknown): string[] {
+    validator ??= new Ajv({ allErrors: true }).compile(convergenceSchema);
+    if (validator(rule)) return [];
+    return (validator.errors ?? []).map(error => `${error.instancePath || '/'} ${error.message ?? 'is invalid'}`);
+}
+
+/**
+ * Add extra rules for a language. A rule that is already registered (same ruleId) is replaced,
+ * so registering the same plugin twice is harmless. Rules may not shadow the built-in database.
+ */
+export function addRegisteredRules(
+    lang: string,
+    rules: ConvergenceRule[],
+    builtIn: (ruleId: string) => boolean
+): void {
+    for (const rule of rules) {
+        const errors = validateConvergenceRule(rule);
+        if (errors.length > 0) {
+            const id = (rule as Partial<ConvergenceRule>)?.ruleId ?? '(missing ruleId)';
+            throw new Error(`Invalid convergence rule '${id}' (${lang}):\n  ${errors.join('\n  ')}`);
+        }
+        if (builtIn(rule.ruleId)) {
+            throw new Error(`Rule '${rule.ruleId}' already exists in the standards database`);
+        }
+    }
+
+    const forLang = registered.get(lang) ?? new Map<string, ConvergenceRule>();
+    rules.forEach(rule => forLang.set(rule.ruleId, rule));
+    registered.set(lang, forLang);
+}
+
+/**
+ * Registered rules for a language. Rules missing in that language fall back to English,
+ * then to whichever language they were registered in.
+ */
+export function getRegisteredRules(lang: string): ConvergenceRule[] {
+    const result = new Map(registered.get(lang) ?? []);
+    for (const fallback of ['en', ...registered.keys()]) {
+        registered.get(fallback)?.forEach((rule, ruleId) => {
+            if (!result.has(ruleId)) result.set(ruleId, rule);
+        });
+    }
+    return Array.from(result.values());
+}
+
+/**
+ * Remove all registered rules (mainly for tests and long-running processes)
+ */
+export function clearRegisteredRules(): void {
+    registered.clear();
+}
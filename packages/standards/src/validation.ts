@@ -0,0 +1,209 @@
+/**
+ * Database validation
+ * Kontrollerar rules.*.json och wcag-to-en301549.json: schema, unika ruleIds,
+ * samma regler och kriterier i alla språk samt att mappningsfilen stämmer med reglerna.
+ */
+
+import rulesEn from '../data/rules.en.json';
+import rulesSv from '../data/rules.sv.json';
+import rulesDe from '../data/rules.de.json';
+import rulesFr from '../data/rules.fr.json';
+import rulesEs from '../data/rules.es.json';
+import en301549Mapping from '../data/wcag-to-en301549.json';
+import { validateConvergenceRule } from './registry';
+
+export type ValidationCheck = 'schema' | 'unique' | 'locales' | 'mapping';
+
+export const VALIDATION_CHECKS: ValidationCheck[] = ['schema', 'unique', 'locales', 'mapping'];
+
+export interface ValidationIssue {
+    check: ValidationCheck;
+    file: string;
+    ruleId?: string;
+    message: string;
+}
+
+export interface ValidationResult {
+    valid: boolean;
+    issues: ValidationIssue[];
+}
+
+export interface ValidationOptions {
+    checks?: ValidationCheck[];                  // Default: alla
+    rules?: Record<string, unknown[]>;           // Per språk; default: databasens rules.*.json
+    mapping?: unknown[];                         // Default: wcag-to-en301549.json
+    referenceLang?: string;                      // Språket övriga jämförs mot (default 'en')
+}
+
+// Fält som ska vara identiska i alla språk och i mappningsfilen – allt annat är översatt text
+const CRITERIA_FIELDS = [
+    'wcagCriteria',
+    'wcagLevel',
+    'wcagVersion',
+    'en301549Criteria',
+    'en301549Chapter',
+    'dosLagenApplies'
+] as const;
+
+const BUILT_IN_RULES: Record<string, unknown[]> = {
+    en: rulesEn,
+    sv: rulesSv,
+    de: rulesDe,
+    fr: rulesFr,
+    es: rulesEs
+};
+
+const MAPPING_FILE = 'wcag-to-en301549.json';
+
+type RuleRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): RuleRecord {
+    return value && typeof value === 'object' ? value as RuleRecord : {};
+}
+
+function ruleIdOf(value: unknown): string | undefined {
+    const ruleId = asRecord(value).ruleId;
+    return typeof ruleId === 'string' ? ruleId : undefined;
+}
+
+function format(value: unknown): string {
+    return value === undefined ? '(missing)' : JSON.stringify(value);
+}
+
+function byRuleId(rules: unknown[]): Map<string, RuleRecord> {
+    const result = new Map<string, RuleRecord>();
+    for (const rule of rules) {
+        const ruleId = ruleIdOf(rule);
+        if (ruleId && !result.has(ruleId)) result.set(ruleId, asRecord(rule));
+    }
+    return result;
+}
+
+function checkSchema(file: string, rules: unknown[]): ValidationIssue[] {
+    return rules.flatMap((rule, index) => validateConvergenceRule(rule).map(error => ({
+        check: 'schema' as const,
+        file,
+        ruleId: ruleIdOf(rule) ?? `#${index}`,
+        message: error
+    })));
+}
+
+function checkUnique(file: string, rules: unknown[]): ValidationIssue[] {
+    const positions = new Map<string, number[]>();
+    rules.forEach((rule, index) => {
+        const ruleId = ruleIdOf(rule);
+        if (ruleId) positions.set(ruleId, [...(positions.get(ruleId) ?? []), index]);
+    });
+
+    return Array.from(positions.entries())
+        .filter(([, indexes]) => indexes.length > 1)
+        .map(([ruleId, indexes]) => ({
+            check: 'unique' as const,
+            file,
+            ruleId,
+            message: `ruleId appears ${indexes.length} times (entries ${indexes.map(index => `#${index}`).join(', ')})`
+        }));
+}
+
+/**
+ * Jämför en regelsamling mot referensen: saknade och extra regler samt avvikande kriteriefält
+ */
+function compareRules(
+    check: ValidationCheck,
+    file: string,
+    rules: unknown[],
+    referenceFile: string,
+    reference: unknown[]
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const expected = byRuleId(reference);
+    const actual = byRuleId(rules);
+
+    for (const ruleId of expected.keys()) {
+        if (!actual.has(ruleId)) {
+            issues.push({ check, file, ruleId, message: `missing (present in ${referenceFile})` });
+        }
+    }
+    for (const [ruleId, rule] of actual) {
+        const referenceRule = expected.get(ruleId);
+        if (!referenceRule) {
+            issues.push({ check, file, ruleId, message: `not present in ${referenceFile}` });
+            continue;
+        }
+        for (const field of CRITERIA_FIELDS) {
+            if (rule[field] !== referenceRule[field]) {
+                issues.push({
+                    check,
+                    file,
+                    ruleId,
+                    message: `${field} is ${format(rule[field])}, ${referenceFile} has ${format(referenceRule[field])}`
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Validera databasen. Utan options kontrolleras de inbyggda filerna med alla kontroller.
+ */
+export function validateDatabase(options: ValidationOptions = {}): ValidationResult {
+    const checks = options.checks ?? VALIDATION_CHECKS;
+    const rules = options.rules ?? BUILT_IN_RULES;
+    const mapping = options.mapping ?? en301549Mapping;
+    const referenceLang = options.referenceLang ?? 'en';
+    const fileFor = (lang: string) => `rules.${lang}.json`;
+    const issues: ValidationIssue[] = [];
+
+    if (checks.includes('schema')) {
+        for (const [lang, langRules] of Object.entries(rules)) {
+            issues.push(...checkSchema(fileFor(lang), langRules));
+        }
+        issues.push(...checkSchema(MAPPING_FILE, mapping));
+    }
+
+    if (checks.includes('unique')) {
+        for (const [lang, langRules] of Object.entries(rules)) {
+            issues.push(...checkUnique(fileFor(lang), langRules));
+        }
+        issues.push(...checkUnique(MAPPING_FILE, mapping));
+    }
+
+    const reference = rules[referenceLang];
+    if (checks.includes('locales') && reference) {
+        for (const [lang, langRules] of Object.entries(rules)) {
+            if (lang === referenceLang) continue;
+            issues.push(...compareRules('locales', fileFor(lang), langRules, fileFor(referenceLang), reference));
+        }
+    }
+
+    if (checks.includes('mapping') && reference) {
+        issues.push(...compareRules('mapping', MAPPING_FILE, mapping, fileFor(referenceLang), reference));
+    }
+
+    return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Läsbar rapport, grupperad per fil
+ */
+export function formatValidationResult(result: ValidationResult): string {
+    if (result.valid) return 'Standards database is valid.';
+
+    const files = new Map<string, ValidationIssue[]>();
+    for (const issue of result.issues) {
+        files.set(issue.file, [...(files.get(issue.file) ?? []), issue]);
+    }
+
+    const lines: string[] = [];
+    for (const [file, issues] of files) {
+        lines.push(file);
+        for (const issue of issues) {
+            const prefix = issue.ruleId ? `${issue.ruleId}: ` : '';
+            lines.push(`  ✗ [${issue.check}] ${prefix}${issue.message}`);
+        }
+    }
+    lines.push('', `${result.issues.length} issue(s) in ${files.size} file(s)`);
+    return lines.join('\n');
+}